@@ -1,6 +1,8 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
 import { OSClient } from '../src/client.js';
-import { SyscallError, ConnectionError } from '../src/error.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { SyscallError, ConnectionError, AbortError } from '../src/error.js';
+import type { Whence } from '../src/types.js';
 
 describe('OSClient', () => {
     describe('initial state', () => {
@@ -52,6 +54,454 @@ describe('OSClient', () => {
             ).rejects.toThrow('Not connected');
         });
     });
+
+    describe('callWith', () => {
+        test('throws when not connected', async () => {
+            const client = new OSClient();
+
+            await expect(
+                client.callWith('proc:getpid', []),
+            ).rejects.toThrow('Not connected');
+        });
+    });
+});
+
+describe('OSClient capabilities', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    async function connect(gatewayToUse: MockGateway): Promise<void> {
+        gateway = gatewayToUse;
+        await gateway.start();
+        client = new OSClient();
+        await client.connect(gateway.url);
+    }
+
+    test('reports syscalls and features from hello', async () => {
+        await connect(new MockGateway({ features: ['binary'], syscalls: true }).on('file:stat', () => ({})));
+
+        const capabilities = client.capabilities()!;
+
+        expect(capabilities.version).toBe('mock');
+        expect(capabilities.syscalls).toContain('file:stat');
+        expect(capabilities.features).toEqual(['binary']);
+        expect(client.supports('file:stat')).toBe(true);
+        expect(client.supports('proc:spawn')).toBe(false);
+    });
+
+    test('unsupported syscalls fail fast with ENOSYS', async () => {
+        await connect(new MockGateway({ syscalls: true }));
+
+        const error = await client.stat('/').catch((err: unknown) => err);
+
+        expect((error as SyscallError).code).toBe('ENOSYS');
+        expect((error as SyscallError).syscall).toBe('file:stat');
+        expect(gateway.received('file:stat')).toEqual([]);
+    });
+
+    test('streaming syscalls fail fast too', async () => {
+        await connect(new MockGateway({ syscalls: true }));
+
+        await expect(client.readdirSync('/')).rejects.toThrow('Gateway does not support file:readdir');
+    });
+
+    test('handlers registered after connecting work unless syscalls are listed', async () => {
+        await connect(new MockGateway());
+        gateway.on('proc:getcwd', () => '/home');
+
+        expect(client.capabilities()?.syscalls).toBeUndefined();
+        expect(await client.getcwd()).toBe('/home');
+    });
+
+    test('pread and pwrite need the positional feature', async () => {
+        await connect(new MockGateway({ features: ['binary'] }));
+
+        await expect(client.pread(3, 0, 10)).rejects.toThrow('positional feature');
+        await expect(client.pwrite(3, 0, 'x')).rejects.toThrow('positional feature');
+    });
+
+    test('write fails fast without the binary feature', async () => {
+        await connect(new MockGateway({ features: [] })
+            .on('file:open', () => 3)
+            .on('file:write', () => ({ written: 0 })));
+
+        await expect(client.write(3, 'abc')).rejects.toThrow('binary feature');
+        await expect(client.writeFile('/x', 'abc')).rejects.toThrow('binary feature');
+        expect(gateway.received('file:open')).toEqual([]);
+    });
+
+    test('assumes everything exists on gateways without hello', async () => {
+        await connect(new MockGateway({ features: [] }).off('sys:hello'));
+
+        expect(client.capabilities()).toBeUndefined();
+        expect(client.supports('anything:at-all')).toBe(true);
+        expect(client.hasFeature('binary')).toBe(true);
+    });
+
+    test('assumes everything exists when hello lists nothing', async () => {
+        await connect(new MockGateway()
+            .on('sys:hello', () => ({ protocol: 1 }))
+            .on('proc:getcwd', () => '/home'));
+
+        expect(client.capabilities()?.syscalls).toBeUndefined();
+        expect(client.hasFeature('binary')).toBe(true);
+        expect(await client.getcwd()).toBe('/home');
+    });
+
+    test('assumes everything exists when hello fails', async () => {
+        await connect(new MockGateway()
+            .on('sys:hello', () => {
+                throw new SyscallError('EINVAL', 'Unknown call');
+            })
+            .on('proc:getcwd', () => '/home'));
+
+        expect(client.capabilities()).toBeUndefined();
+        expect(await client.getcwd()).toBe('/home');
+    });
+
+    test('capabilities are cleared on close', async () => {
+        await connect(new MockGateway());
+
+        client.close();
+
+        expect(client.capabilities()).toBeUndefined();
+    });
+});
+
+describe('OSClient (mock gateway)', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect({ socketPath: gateway.socketPath });
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    describe('call', () => {
+        test('returns ok data', async () => {
+            gateway.on('proc:getcwd', () => '/home');
+
+            expect(await client.call<string>('proc:getcwd')).toBe('/home');
+        });
+
+        test('throws SyscallError with code and syscall', async () => {
+            gateway.on('file:stat', (_args, reply) => reply.error('ENOENT', 'No such file'));
+
+            const error = await client.stat('/missing').catch((err: unknown) => err);
+
+            expect(error).toBeInstanceOf(SyscallError);
+            expect((error as SyscallError).code).toBe('ENOENT');
+            expect((error as SyscallError).syscall).toBe('file:stat');
+        });
+
+        test('returns first item for streaming syscalls', async () => {
+            gateway.on('ems:select', (_args, reply) => {
+                reply.item({ name: 'first' });
+                reply.item({ name: 'second' });
+            });
+
+            expect(await client.call<object>('ems:select', 'User')).toEqual({ name: 'first' });
+        });
+    });
+
+    describe('streaming', () => {
+        test('collect gathers all items', async () => {
+            gateway.on('file:readdir', ([path], reply) => {
+                reply.item({ name: `${path}a`, model: 'file' });
+                reply.item({ name: `${path}b`, model: 'folder' });
+            });
+
+            expect(await client.readdirSync('/')).toEqual([
+                { name: '/a', model: 'file' },
+                { name: '/b', model: 'folder' },
+            ]);
+        });
+
+        test('iterate throws on error mid-stream', async () => {
+            gateway.on('ems:select', (_args, reply) => {
+                reply.item({ id: 1 });
+                reply.error('EIO', 'Disk on fire');
+            });
+
+            const seen: unknown[] = [];
+            const iterate = async () => {
+                for await (const item of client.select('User')) {
+                    seen.push(item);
+                }
+            };
+
+            await expect(iterate()).rejects.toThrow('Disk on fire');
+            expect(seen).toEqual([{ id: 1 }]);
+        });
+
+        test('selectOne passes limit 1', async () => {
+            gateway.on('ems:select', ([, options], reply) => {
+                reply.item({ options });
+            });
+
+            expect(await client.selectOne<object>('User', { where: { active: true } })).toEqual({
+                options: { where: { active: true }, limit: 1 },
+            });
+        });
+    });
+
+    describe('file operations', () => {
+        test('read concatenates data chunks', async () => {
+            gateway.on('file:read', (_args, reply) => {
+                reply.data(new TextEncoder().encode('Hello, '));
+                reply.data(new TextEncoder().encode('World!'));
+            });
+
+            const data = await client.read(3);
+
+            expect(new TextDecoder().decode(data)).toBe('Hello, World!');
+        });
+
+        test('writeFile opens, writes and closes', async () => {
+            gateway
+                .on('file:open', () => 7)
+                .on('file:write', ([, { data }]: [number, { data: Uint8Array }]) => ({ written: data.length }))
+                .on('file:close', () => undefined);
+
+            await client.writeFile('/tmp/out.txt', 'abc');
+
+            expect(gateway.requests.map(r => r.call)).toEqual(['sys:hello', 'file:open', 'file:write', 'file:close']);
+            expect(gateway.received('file:write')[0].args).toEqual([7, { data: new TextEncoder().encode('abc') }]);
+        });
+
+        test('readText closes the descriptor after a failed read', async () => {
+            gateway
+                .on('file:open', () => 4)
+                .on('file:read', (_args, reply) => reply.error('EIO', 'Read failed'))
+                .on('file:close', () => undefined);
+
+            await expect(client.readText('/etc/motd')).rejects.toThrow('Read failed');
+            expect(gateway.received('file:close')[0].args).toEqual([4]);
+        });
+
+        test('exists maps ENOENT to false', async () => {
+            gateway.on('file:stat', ([path], reply) => {
+                if (path === '/missing') {
+                    reply.error('ENOENT', 'No such file');
+                }
+            });
+
+            expect(await client.exists('/')).toBe(true);
+            expect(await client.exists('/missing')).toBe(false);
+        });
+    });
+
+    describe('progress and events', () => {
+        test('call skips progress and reports it', async () => {
+            const seen: unknown[] = [];
+
+            gateway.on('proc:spawn', (_args, reply) => {
+                reply.progress({ message: 'loading' });
+
+                return 12;
+            });
+
+            const child = await client.spawn('/bin/worker', undefined, { onProgress: p => seen.push(p) });
+
+            expect(child.pid).toBe('12');
+            expect(seen).toEqual([{ message: 'loading' }]);
+        });
+
+        test('read reports progress', async () => {
+            const seen: unknown[] = [];
+
+            gateway.on('file:read', (_args, reply) => {
+                reply.data(new Uint8Array([1, 2]));
+                reply.progress({ done: 2, total: 4, unit: 'bytes' });
+                reply.data(new Uint8Array([3, 4]));
+            });
+
+            const data = await client.read(3, undefined, { onProgress: p => seen.push(p) });
+
+            expect(data).toEqual(new Uint8Array([1, 2, 3, 4]));
+            expect(seen).toEqual([{ done: 2, total: 4, unit: 'bytes' }]);
+        });
+
+        test('events() yields broadcast events', async () => {
+            const controller = new AbortController();
+            const types: unknown[] = [];
+
+            const listen = (async () => {
+                for await (const event of client.events({ signal: controller.signal })) {
+                    types.push(event.data?.type);
+                    break;
+                }
+            })();
+
+            await Bun.sleep(5);
+            gateway.broadcast({ id: 'event', op: 'event', data: { type: 'hello' } });
+            await listen;
+
+            expect(types).toEqual(['hello']);
+        });
+    });
+
+    describe('positional I/O', () => {
+        test('seek and tell', async () => {
+            gateway.on('file:seek', ([, offset, whence]: [number, number, Whence]) => (whence === 'cur' ? 42 : offset));
+
+            expect(await client.seek(3, 100)).toBe(100);
+            expect(await client.tell(3)).toBe(42);
+            expect(gateway.received('file:seek').map(r => r.args)).toEqual([[3, 100, 'set'], [3, 0, 'cur']]);
+        });
+
+        test('pread reads at an offset', async () => {
+            gateway.on('file:read', (_args, reply) => {
+                reply.data(new Uint8Array([7, 8]));
+            });
+
+            expect(await client.pread(3, 512, 2)).toEqual(new Uint8Array([7, 8]));
+            expect(gateway.received('file:read')[0].args).toEqual([3, 2, { position: 512 }]);
+        });
+
+        test('pwrite writes at an offset', async () => {
+            gateway.on('file:write', ([, { data }]: [number, { data: Uint8Array }]) => ({ written: data.length }));
+
+            expect(await client.pwrite(3, 4096, 'page')).toBe(4);
+            expect(gateway.received('file:write')[0].args).toEqual([
+                3,
+                { data: new TextEncoder().encode('page'), position: 4096 },
+            ]);
+        });
+
+        test('ftruncate and truncate', async () => {
+            gateway
+                .on('file:ftruncate', () => undefined)
+                .on('file:truncate', () => undefined);
+
+            await client.ftruncate(3, 1024);
+            await client.truncate('/tmp/x');
+
+            expect(gateway.received('file:ftruncate')[0].args).toEqual([3, 1024]);
+            expect(gateway.received('file:truncate')[0].args).toEqual(['/tmp/x', 0]);
+        });
+    });
+
+    describe('redirects', () => {
+        test('call follows a path redirect', async () => {
+            gateway.on('file:stat', ([path], reply) => {
+                if (path === '/link') {
+                    reply.redirect({ path: '/real' });
+
+                    return;
+                }
+
+                return { name: path };
+            });
+
+            expect(await client.stat('/link')).toMatchObject({ name: '/real' });
+            expect(gateway.received('file:stat').map(r => r.args[0])).toEqual(['/link', '/real']);
+        });
+
+        test('iterate follows a syscall redirect', async () => {
+            gateway
+                .on('file:readdir', (_args, reply) => reply.redirect({ call: 'ems:select', args: ['File'] }))
+                .on('ems:select', ([model], reply) => {
+                    reply.item({ name: 'a', model });
+                });
+
+            expect(await client.readdirSync('/mnt')).toEqual([{ name: 'a', model: 'File' }]);
+        });
+
+        test('redirect loops fail with ELOOP', async () => {
+            gateway.on('file:stat', ([path], reply) => {
+                reply.redirect({ path: path === '/a' ? '/b' : '/a' });
+            });
+
+            const error = await client.stat('/a').catch((err: unknown) => err);
+
+            expect((error as SyscallError).code).toBe('ELOOP');
+            expect((error as SyscallError).syscall).toBe('file:stat');
+        });
+
+        test('maxRedirects limits hops per call', async () => {
+            let hop = 0;
+
+            gateway.on('file:stat', (_args, reply) => {
+                reply.redirect({ path: `/hop${++hop}` });
+            });
+
+            const error = await client.stat('/', { maxRedirects: 3 }).catch((err: unknown) => err);
+
+            expect((error as SyscallError).message).toBe('Too many redirects (limit 3)');
+            expect(gateway.received('file:stat')).toHaveLength(4);
+        });
+
+        test('follows redirects to another gateway', async () => {
+            const remote = new MockGateway({ transport: 'tcp' })
+                .on('file:stat', ([path]) => ({ name: path, gateway: 'remote' }));
+
+            await remote.start();
+
+            const other = new OSClient();
+
+            try {
+                await other.connect({ socketPath: gateway.socketPath, gateways: { [remote.url]: {} } });
+                gateway.on('file:stat', (_args, reply) => reply.redirect({ gateway: remote.url }));
+
+                expect(await other.stat('/shared')).toMatchObject({ name: '/shared', gateway: 'remote' });
+                expect(await other.stat('/shared')).toMatchObject({ gateway: 'remote' });
+                expect(remote.received('sys:hello')).toHaveLength(1);
+            }
+            finally {
+                other.close();
+                remote.stop();
+            }
+        });
+
+        test('rejects redirects to unlisted gateways', async () => {
+            const remote = new MockGateway({ transport: 'tcp' });
+
+            await remote.start();
+
+            try {
+                gateway.on('file:stat', (_args, reply) => reply.redirect({ gateway: remote.url }));
+
+                const error = await client.stat('/shared').catch((err: unknown) => err);
+
+                expect(error).toBeInstanceOf(SyscallError);
+                expect((error as SyscallError).code).toBe('EACCES');
+                expect((error as SyscallError).message).toBe(`Redirect to unlisted gateway ${remote.url}`);
+                expect(remote.received('sys:hello')).toEqual([]);
+            }
+            finally {
+                remote.stop();
+            }
+        });
+    });
+
+    describe('process operations', () => {
+        test('getpid converts numeric pid to string', async () => {
+            gateway.on('proc:getpid', () => 42);
+
+            expect(await client.getpid()).toBe('42');
+        });
+
+        test('spawn passes path and options', async () => {
+            gateway.on('proc:spawn', () => 7);
+
+            expect((await client.spawn('/bin/worker', { args: ['-v'] })).pid).toBe('7');
+            expect(gateway.received('proc:spawn')[0].args).toEqual(['/bin/worker', { args: ['-v'] }]);
+        });
+    });
 });
 
 // Integration tests - require a running gateway
@@ -223,6 +673,29 @@ describe.skipIf(!process.env.GATEWAY_SOCKET)('OSClient (integration)', () => {
         });
     });
 
+    describe('abort', () => {
+        test('aborted signal rejects typed wrappers', async () => {
+            const controller = new AbortController();
+
+            controller.abort();
+
+            await expect(
+                client.stat('/', { signal: controller.signal }),
+            ).rejects.toThrow(AbortError);
+        });
+
+        test('abort ends select iteration', async () => {
+            const controller = new AbortController();
+            const iterate = async () => {
+                for await (const _ of client.readdir('/', { signal: controller.signal })) {
+                    controller.abort();
+                }
+            };
+
+            await expect(iterate()).rejects.toThrow(AbortError);
+        });
+    });
+
     describe('raw syscall access', () => {
         test('call works for single-value syscalls', async () => {
             // Gateway returns direct value, not wrapped object
@@ -0,0 +1,168 @@
+import { describe, expect, test, afterEach } from 'bun:test';
+import {
+    UnixConnector,
+    TcpConnector,
+    WebSocketConnector,
+    createConnector,
+    parseGatewayUrl,
+} from '../src/connector.js';
+import type { Connector } from '../src/connector.js';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import type { MockTransport } from '../src/mock-gateway.js';
+import { ConnectionError } from '../src/error.js';
+
+describe('parseGatewayUrl', () => {
+    test('unix URL', () => {
+        const connector = parseGatewayUrl('unix:///tmp/monk.sock');
+
+        expect(connector).toBeInstanceOf(UnixConnector);
+        expect((connector as UnixConnector).path).toBe('/tmp/monk.sock');
+        expect(connector.address).toBe('unix:///tmp/monk.sock');
+    });
+
+    test('tcp URL', () => {
+        const connector = parseGatewayUrl('tcp://gateway:7000');
+
+        expect(connector).toBeInstanceOf(TcpConnector);
+        expect((connector as TcpConnector).host).toBe('gateway');
+        expect((connector as TcpConnector).port).toBe(7000);
+    });
+
+    test('ws and wss URLs', () => {
+        expect(parseGatewayUrl('ws://host/gateway')).toBeInstanceOf(WebSocketConnector);
+        expect(parseGatewayUrl('wss://host/gateway').address).toBe('wss://host/gateway');
+    });
+
+    test('tls URL enables TLS', () => {
+        const connector = parseGatewayUrl('tls://gateway:7000') as TcpConnector;
+
+        expect(connector.tls).toBe(true);
+        expect(connector.address).toBe('tls://gateway:7000');
+    });
+
+    test('tls options apply to tcp URLs', () => {
+        const connector = parseGatewayUrl('tcp://gateway:7000', { ca: 'pem' }) as TcpConnector;
+
+        expect(connector.tls).toEqual({ ca: 'pem' });
+    });
+
+    test('tls options are rejected for unix and ws URLs', () => {
+        expect(() => parseGatewayUrl('unix:///tmp/monk.sock', true)).toThrow('TLS is only supported');
+        expect(() => parseGatewayUrl('ws://host/gateway', true)).toThrow('TLS is only supported');
+    });
+
+    test('tcp URL without port is rejected', () => {
+        expect(() => parseGatewayUrl('tcp://gateway')).toThrow(ConnectionError);
+    });
+
+    test('unsupported scheme is rejected', () => {
+        expect(() => parseGatewayUrl('http://gateway')).toThrow('Unsupported gateway URL scheme: http:');
+    });
+
+    test('malformed URL is rejected', () => {
+        expect(() => parseGatewayUrl('not a url')).toThrow('Invalid gateway URL');
+    });
+});
+
+describe('createConnector', () => {
+    test('defaults to /tmp/monk.sock', () => {
+        expect((createConnector({}) as UnixConnector).path).toBe('/tmp/monk.sock');
+    });
+
+    test('uses socketPath', () => {
+        expect((createConnector({ socketPath: '/run/gw.sock' }) as UnixConnector).path).toBe('/run/gw.sock');
+    });
+
+    test('uses host and port', () => {
+        expect(createConnector({ host: 'localhost', port: 7000 }).address).toBe('tcp://localhost:7000');
+    });
+
+    test('host and port with tls', () => {
+        expect(createConnector({ host: 'localhost', port: 7000, tls: true }).address).toBe('tls://localhost:7000');
+    });
+
+    test('tls is rejected for the default socket', () => {
+        expect(() => createConnector({ tls: true })).toThrow(ConnectionError);
+    });
+
+    test('requires both host and port', () => {
+        expect(() => createConnector({ host: 'localhost' })).toThrow(ConnectionError);
+    });
+
+    test('url wins over socketPath', () => {
+        expect(createConnector({ url: 'tcp://a:1', socketPath: '/x.sock' }).address).toBe('tcp://a:1');
+    });
+
+    test('custom connector wins over everything', () => {
+        const custom: Connector = {
+            address: 'custom',
+            connect: () => Promise.reject(new Error('unused')),
+        };
+
+        expect(createConnector({ connector: custom, url: 'tcp://a:1' })).toBe(custom);
+    });
+});
+
+describe.each(['unix', 'tcp', 'ws'] as MockTransport[])('OSClient over %s', (transport) => {
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    test('round-trips calls and streams', async () => {
+        gateway = new MockGateway({ transport })
+            .on('proc:getcwd', () => '/home')
+            .on('file:read', (_args, reply) => {
+                // Larger than a typical socket buffer to exercise partial writes
+                reply.data(new Uint8Array(1024 * 1024).fill(7));
+                reply.data(new Uint8Array([1, 2, 3]));
+            });
+
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        expect(client.isConnected()).toBe(true);
+        expect(await client.getcwd()).toBe('/home');
+
+        const data = await client.read(3);
+
+        expect(data.length).toBe(1024 * 1024 + 3);
+        expect(data.slice(-4)).toEqual(new Uint8Array([7, 1, 2, 3]));
+    });
+
+    test('reports connection loss', async () => {
+        gateway = new MockGateway({ transport });
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        gateway.disconnect();
+
+        while (client.isConnected()) {
+            await Bun.sleep(1);
+        }
+
+        expect(client.getState()).toBe('disconnected');
+    });
+});
+
+describe('connect failures', () => {
+    test('tcp connection refused', async () => {
+        const client = new OSClient();
+
+        await expect(client.connect({ url: 'tcp://127.0.0.1:1', timeout: 1000 })).rejects.toThrow(ConnectionError);
+    });
+
+    test('ws connection refused', async () => {
+        const client = new OSClient();
+
+        await expect(client.connect({ url: 'ws://127.0.0.1:1/', timeout: 1000 })).rejects.toThrow(ConnectionError);
+    });
+});
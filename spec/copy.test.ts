@@ -0,0 +1,238 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { SyscallError } from '../src/error.js';
+import { serveTree } from './mem-fs.js';
+
+const text = (data: Uint8Array | 'folder' | undefined) => new TextDecoder().decode(data as Uint8Array);
+const bytes = (value: string) => new TextEncoder().encode(value);
+
+describe('copy and move', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let tree: Map<string, Uint8Array | 'folder'>;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        tree = serveTree(gateway);
+        tree.set('/src', 'folder');
+        tree.set('/src/a.txt', bytes('alpha'));
+        tree.set('/src/sub', 'folder');
+        tree.set('/src/sub/b.txt', bytes('beta'));
+        tree.set('/dst', 'folder');
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    describe('copy', () => {
+        test('streams a file when capabilities lack file:copy', async () => {
+            const advertised = new MockGateway({ syscalls: true });
+            const files = serveTree(advertised);
+            const other = new OSClient();
+
+            files.set('/a.txt', bytes('alpha'));
+            await advertised.start();
+
+            try {
+                await other.connect(advertised.url);
+                await other.copy('/a.txt', '/b.txt');
+
+                expect(text(files.get('/b.txt'))).toBe('alpha');
+                expect(advertised.received('file:copy')).toEqual([]);
+                expect(advertised.received('file:close')).toHaveLength(2);
+            }
+            finally {
+                other.close();
+                advertised.stop();
+            }
+        });
+
+        test('uses the gateway-side copy when available', async () => {
+            gateway.on('file:copy', ([src, dst]: [string, string]) => {
+                tree.set(dst, tree.get(src)!);
+            });
+
+            await client.copy('/src/a.txt', '/dst/a.txt', { preserveTimestamps: true });
+
+            expect(gateway.received('file:copy')[0].args).toEqual(['/src/a.txt', '/dst/a.txt', { preserveTimestamps: true }]);
+            expect(gateway.received('file:read')).toEqual([]);
+            expect(gateway.received('file:utimes')).toEqual([]);
+        });
+
+        test('falls back to streaming when file:copy answers ENOSYS', async () => {
+            // Without sys:hello every syscall is assumed to exist
+            await client.copy('/src', '/dst/copy', { recursive: true });
+
+            expect(text(tree.get('/dst/copy/a.txt'))).toBe('alpha');
+            expect(text(tree.get('/dst/copy/sub/b.txt'))).toBe('beta');
+            // Not retried after the first ENOSYS
+            expect(gateway.received('file:copy')).toHaveLength(1);
+        });
+
+        test('copies folder trees only when recursive', async () => {
+            await expect(client.copy('/src', '/dst/copy')).rejects.toMatchObject({ code: 'EISDIR' });
+
+            await client.copy('/src', '/dst/copy', { recursive: true });
+
+            expect(tree.get('/dst/copy/sub')).toBe('folder');
+            expect(text(tree.get('/dst/copy/sub/b.txt'))).toBe('beta');
+        });
+
+        test('overwrite policies', async () => {
+            tree.set('/dst/a.txt', bytes('old'));
+
+            await expect(client.copy('/src/a.txt', '/dst/a.txt')).rejects.toMatchObject({ code: 'EEXIST' });
+
+            await client.copy('/src/a.txt', '/dst/a.txt', { overwrite: 'skip' });
+            expect(text(tree.get('/dst/a.txt'))).toBe('old');
+
+            await client.copy('/src/a.txt', '/dst/a.txt', { overwrite: 'replace' });
+            expect(text(tree.get('/dst/a.txt'))).toBe('alpha');
+        });
+
+        test('merges into existing folders, applying the policy per file', async () => {
+            tree.set('/dst/sub', 'folder');
+            tree.set('/dst/sub/b.txt', bytes('keep'));
+
+            await client.copy('/src', '/dst', { recursive: true, overwrite: 'skip' });
+
+            expect(text(tree.get('/dst/a.txt'))).toBe('alpha');
+            expect(text(tree.get('/dst/sub/b.txt'))).toBe('keep');
+        });
+
+        test('preserveTimestamps stamps files, then folders deepest first', async () => {
+            await client.utimes('/src/sub/b.txt', { updated_at: new Date('2020-05-05T00:00:00Z') });
+            await client.copy('/src', '/dst/copy', { recursive: true, preserveTimestamps: true });
+
+            expect((await client.stat('/dst/copy/sub/b.txt')).updated_at).toBe('2020-05-05T00:00:00.000Z');
+            expect(gateway.received('file:utimes').slice(1).map(r => r.args[0])).toEqual([
+                '/dst/copy/a.txt',
+                '/dst/copy/sub/b.txt',
+                '/dst/copy/sub',
+                '/dst/copy',
+            ]);
+        });
+
+        test('refuses to copy into itself', async () => {
+            await expect(client.copy('/src', '/src/sub/again', { recursive: true })).rejects.toMatchObject({ code: 'EINVAL' });
+            await expect(client.copy('/src/a.txt', '/src/a.txt')).rejects.toMatchObject({ code: 'EINVAL' });
+        });
+    });
+
+    describe('move', () => {
+        test('renames', async () => {
+            await client.move('/src', '/dst/moved');
+
+            expect(text(tree.get('/dst/moved/sub/b.txt'))).toBe('beta');
+            expect(tree.has('/src')).toBe(false);
+        });
+
+        test('copies and removes across mounts (EXDEV)', async () => {
+            gateway.on('file:rename', () => {
+                throw new SyscallError('EXDEV', 'Cross-device link');
+            });
+
+            await client.move('/src', '/dst/moved');
+
+            expect(text(tree.get('/dst/moved/a.txt'))).toBe('alpha');
+            expect(tree.has('/src')).toBe(false);
+            expect(gateway.received('file:utimes').length).toBeGreaterThan(0);
+        });
+
+        test('moves across mounts on gateways without file:utimes', async () => {
+            const advertised = new MockGateway({ syscalls: true });
+            const files = serveTree(advertised);
+            const other = new OSClient();
+
+            files.set('/src', 'folder');
+            files.set('/src/a.txt', bytes('alpha'));
+            files.set('/dst', 'folder');
+            advertised
+                .off('file:utimes')
+                .on('file:rename', () => {
+                    throw new SyscallError('EXDEV', 'Cross-device link');
+                });
+            await advertised.start();
+
+            try {
+                await other.connect(advertised.url);
+                await other.move('/src', '/dst/moved');
+
+                expect(text(files.get('/dst/moved/a.txt'))).toBe('alpha');
+                expect(files.has('/src')).toBe(false);
+                expect(advertised.received('file:utimes')).toEqual([]);
+            }
+            finally {
+                other.close();
+                advertised.stop();
+            }
+        });
+
+        test('overwrite policies', async () => {
+            tree.set('/dst/a.txt', bytes('old'));
+
+            await expect(client.move('/src/a.txt', '/dst/a.txt')).rejects.toMatchObject({ code: 'EEXIST' });
+
+            await client.move('/src/a.txt', '/dst/a.txt', { overwrite: 'skip' });
+            expect(tree.has('/src/a.txt')).toBe(true);
+
+            await client.move('/src/a.txt', '/dst/a.txt', { overwrite: 'replace' });
+            expect(text(tree.get('/dst/a.txt'))).toBe('alpha');
+            expect(tree.has('/src/a.txt')).toBe(false);
+            expect([...tree.keys()].filter(path => path.startsWith('/dst/.'))).toEqual([]);
+        });
+
+        test('a missing source leaves the destination alone', async () => {
+            tree.set('/dst/a.txt', bytes('old'));
+
+            await expect(client.move('/src/missing.txt', '/dst/a.txt', { overwrite: 'replace' }))
+                .rejects.toMatchObject({ code: 'ENOENT' });
+            expect(text(tree.get('/dst/a.txt'))).toBe('old');
+        });
+
+        test('refuses to replace a folder with a file', async () => {
+            tree.set('/dst/a.txt', 'folder');
+
+            await expect(client.move('/src/a.txt', '/dst/a.txt', { overwrite: 'replace' }))
+                .rejects.toMatchObject({ code: 'EISDIR' });
+            expect(tree.get('/dst/a.txt')).toBe('folder');
+            expect(tree.has('/src/a.txt')).toBe(true);
+        });
+
+        test('restores the destination when a cross-mount copy fails', async () => {
+            tree.set('/dst/moved', 'folder');
+            tree.set('/dst/moved/keep.txt', bytes('keep'));
+
+            gateway
+                .on('file:rename', ([from, to]: [string, string]) => {
+                    if (from.startsWith('/src')) {
+                        throw new SyscallError('EXDEV', 'Cross-device link');
+                    }
+
+                    for (const [path, node] of [...tree]) {
+                        if (path === from || path.startsWith(`${from}/`)) {
+                            tree.set(to + path.slice(from.length), node);
+                            tree.delete(path);
+                        }
+                    }
+                })
+                .on('file:read', () => {
+                    throw new SyscallError('EIO', 'I/O error');
+                });
+
+            await expect(client.move('/src', '/dst/moved', { overwrite: 'replace' })).rejects.toMatchObject({ code: 'EIO' });
+
+            expect([...tree.keys()].filter(path => path.startsWith('/dst')).sort())
+                .toEqual(['/dst', '/dst/moved', '/dst/moved/keep.txt']);
+            expect(text(tree.get('/src/a.txt'))).toBe('alpha');
+        });
+    });
+});
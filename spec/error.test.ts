@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { SyscallError, ConnectionError, TimeoutError } from '../src/error.js';
+import { SyscallError, ConnectionError, TimeoutError, FsError } from '../src/error.js';
 import type { ErrorResponse } from '../src/types.js';
 
 describe('SyscallError', () => {
@@ -107,3 +107,25 @@ describe('TimeoutError', () => {
         expect(error instanceof Error).toBe(true);
     });
 });
+
+describe('FsError', () => {
+    test('formats like node:fs errors', () => {
+        const error = FsError.fromSyscallError(new SyscallError('ENOENT', 'No such file or directory'), 'open', '/x');
+
+        expect(error).toBeInstanceOf(FsError);
+        expect(error.name).toBe('FsError');
+        expect(error.code).toBe('ENOENT');
+        expect(error.errno).toBe(-2);
+        expect(error.syscall).toBe('open');
+        expect(error.path).toBe('/x');
+        expect(error.message).toBe("ENOENT: No such file or directory, open '/x'");
+    });
+
+    test('includes dest and leaves errno unset for unknown codes', () => {
+        const error = new FsError('EGATEWAY', 'Gateway failure', 'rename', '/a', '/b');
+
+        expect(error.dest).toBe('/b');
+        expect(error.errno).toBeUndefined();
+        expect(error.message).toBe("EGATEWAY: Gateway failure, rename '/a' -> '/b'");
+    });
+});
@@ -0,0 +1,321 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { SyscallError } from '../src/error.js';
+
+/**
+ * Gateway file:write handler that records payloads and acks them.
+ */
+function recordWrites(gateway: MockGateway, limit = Infinity): Uint8Array[] {
+    const frames: Uint8Array[] = [];
+
+    gateway
+        .on('file:open', () => 5)
+        .on('file:close', () => undefined)
+        .on('file:write', ([, { data }]: [number, { data: Uint8Array }]) => {
+            const accepted = (data as Uint8Array).subarray(0, limit);
+
+            frames.push(accepted);
+
+            return { written: accepted.length };
+        });
+
+    return frames;
+}
+
+/**
+ * Gateway file:read handler serving a file in 1000-byte data frames,
+ * from the position argument or the descriptor's own cursor.
+ */
+function serveFile(gateway: MockGateway, content: Uint8Array): void {
+    let cursor = 0;
+
+    gateway
+        .on('file:open', () => 9)
+        .on('file:close', () => undefined)
+        .on('file:read', ([, size, opts]: [number, number, { position?: number }?], reply) => {
+            const from = opts?.position ?? cursor;
+            const to = Math.min(content.length, from + size);
+
+            for (let offset = from; offset < to; offset += 1000) {
+                reply.data(content.subarray(offset, Math.min(to, offset + 1000)));
+            }
+
+            cursor = to;
+        });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    return new Uint8Array(Buffer.concat(chunks));
+}
+
+function pattern(length: number): Uint8Array {
+    return Uint8Array.from({ length }, (_, i) => i % 251);
+}
+
+describe('write streams', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    test('writeAll splits data into bounded frames', async () => {
+        const frames = recordWrites(gateway);
+        const data = pattern(150_000);
+
+        expect(await client.writeAll(5, data, { chunkSize: 65536 })).toBe(150_000);
+        expect(frames.map(frame => frame.length)).toEqual([65536, 65536, 18928]);
+        expect(concat(frames)).toEqual(data);
+    });
+
+    test('writeAll continues after short writes', async () => {
+        const frames = recordWrites(gateway, 4);
+        const progress: unknown[] = [];
+
+        await client.writeAll(5, 'hello world', { onProgress: p => progress.push(p.done) });
+
+        expect(new TextDecoder().decode(concat(frames))).toBe('hello world');
+        expect(progress).toEqual([4, 8, 11]);
+    });
+
+    test('writeAll fails when the gateway accepts nothing', async () => {
+        recordWrites(gateway, 0);
+
+        await expect(client.writeAll(5, 'abc')).rejects.toThrow('Gateway accepted no bytes');
+    });
+
+    test('writeFile chunks large files', async () => {
+        const frames = recordWrites(gateway);
+
+        await client.writeFile('/big.bin', pattern(100), { chunkSize: 32 });
+
+        expect(frames).toHaveLength(4);
+        expect(gateway.received('file:close')).toHaveLength(1);
+    });
+
+    test('createWriteStream opens, writes and closes', async () => {
+        const frames = recordWrites(gateway);
+        const writer = client.createWriteStream('/out.log', { chunkSize: 8 }).getWriter();
+
+        await writer.write(new TextEncoder().encode('first line\n'));
+        await writer.write(new TextEncoder().encode('second\n'));
+        await writer.close();
+
+        expect(gateway.received('file:open')[0].args).toEqual(['/out.log', { write: true, create: true, truncate: true }]);
+        expect(new TextDecoder().decode(concat(frames))).toBe('first line\nsecond\n');
+        expect(frames.every(frame => frame.length <= 8)).toBe(true);
+        expect(gateway.received('file:close')[0].args).toEqual([5]);
+    });
+
+    test('waits for each ack before sending the next frame', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+
+        gateway
+            .on('file:open', () => 5)
+            .on('file:close', () => undefined)
+            .on('file:write', async ([, { data }]: [number, { data: Uint8Array }]) => {
+                maxInFlight = Math.max(maxInFlight, ++inFlight);
+                await Bun.sleep(2);
+                inFlight--;
+
+                return { written: data.length };
+            });
+
+        const source = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (let i = 0; i < 10; i++) {
+                    controller.enqueue(pattern(100));
+                }
+
+                controller.close();
+            },
+        });
+
+        await source.pipeTo(client.createWriteStream('/x', { chunkSize: 64 }));
+
+        expect(gateway.received('file:write')).toHaveLength(20);
+        expect(maxInFlight).toBe(1);
+    });
+
+    test('closes the descriptor when a write fails', async () => {
+        gateway
+            .on('file:open', () => 5)
+            .on('file:close', () => undefined)
+            .on('file:write', () => {
+                throw new SyscallError('ENOSPC', 'No space left');
+            });
+
+        const writer = client.createWriteStream('/x').getWriter();
+
+        await expect(writer.write(pattern(10))).rejects.toThrow('No space left');
+        expect(gateway.received('file:close')).toHaveLength(1);
+    });
+
+    test('closes the descriptor on abort', async () => {
+        recordWrites(gateway);
+
+        const writer = client.createWriteStream('/x').getWriter();
+
+        await writer.write(pattern(10));
+        await writer.abort(new Error('cancelled'));
+
+        expect(gateway.received('file:close')).toHaveLength(1);
+    });
+
+    test('fails fast without the binary feature', async () => {
+        const legacy = new MockGateway({ features: [] });
+
+        await legacy.start();
+
+        const other = new OSClient();
+
+        try {
+            await other.connect(legacy.url);
+            expect(() => other.createWriteStream('/x')).toThrow('binary feature');
+        }
+        finally {
+            other.close();
+            legacy.stop();
+        }
+    });
+});
+
+describe('read streams', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    const content = pattern(10_000);
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    test('streams a file by path and closes it', async () => {
+        serveFile(gateway, content);
+
+        expect(await readAll(client.createReadStream('/data.bin', { highWaterMark: 4096 }))).toEqual(content);
+        expect(gateway.received('file:read').map(r => r.args)).toEqual([
+            [9, 4096],
+            [9, 4096],
+            [9, 4096],
+            [9, 4096],
+        ]);
+        expect(gateway.received('file:close')[0].args).toEqual([9]);
+    });
+
+    test('reads a byte range with inclusive end', async () => {
+        serveFile(gateway, content);
+
+        const data = await readAll(client.createReadStream('/data.bin', { start: 100, end: 2599, highWaterMark: 1024 }));
+
+        expect(data).toEqual(content.subarray(100, 2600));
+        expect(gateway.received('file:read').at(-1)!.args).toEqual([9, 452, { position: 2148 }]);
+    });
+
+    test('start offsets need the positional feature', async () => {
+        const legacy = new MockGateway({ features: ['binary'] });
+
+        await legacy.start();
+
+        const other = new OSClient();
+
+        try {
+            await other.connect(legacy.url);
+            expect(() => other.createReadStream('/x', { start: 10 })).toThrow('positional feature');
+            expect(() => other.createReadStream('/x')).not.toThrow();
+        }
+        finally {
+            other.close();
+            legacy.stop();
+        }
+    });
+
+    test('reads an open descriptor from its position and leaves it open', async () => {
+        serveFile(gateway, content);
+
+        const data = await readAll(client.createReadStream(9));
+
+        expect(data).toEqual(content);
+        expect(gateway.received('file:read')[0].args).toEqual([9, 65536]);
+        expect(gateway.received('file:open')).toEqual([]);
+        expect(gateway.received('file:close')).toEqual([]);
+    });
+
+    test('reads on demand', async () => {
+        serveFile(gateway, content);
+
+        const reader = client.createReadStream('/data.bin', { highWaterMark: 2000 }).getReader();
+
+        await reader.read();
+        await Bun.sleep(10);
+
+        // The first read plus one read-ahead to fill the queue
+        expect(gateway.received('file:read').length).toBeLessThanOrEqual(2);
+
+        await reader.cancel();
+
+        expect(gateway.received('file:close')).toHaveLength(1);
+    });
+
+    test('closes the descriptor when a read fails', async () => {
+        gateway
+            .on('file:open', () => 9)
+            .on('file:close', () => undefined)
+            .on('file:read', () => {
+                throw new SyscallError('EIO', 'Disk error');
+            });
+
+        await expect(readAll(client.createReadStream('/data.bin'))).rejects.toThrow('Disk error');
+        expect(gateway.received('file:close')).toHaveLength(1);
+    });
+
+    test('reports progress', async () => {
+        serveFile(gateway, content);
+
+        const progress: unknown[] = [];
+
+        await readAll(client.createReadStream('/data.bin', {
+            end: 4999,
+            highWaterMark: 2500,
+            onProgress: p => progress.push([p.done, p.total]),
+        }));
+
+        expect(progress).toEqual([[2500, 5000], [5000, 5000]]);
+    });
+
+    test('Node Readable adapter', async () => {
+        serveFile(gateway, content);
+
+        const chunks: Buffer[] = [];
+
+        for await (const chunk of client.createNodeReadStream('/data.bin')) {
+            chunks.push(chunk as Buffer);
+        }
+
+        expect(concat(chunks)).toEqual(content);
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { encodeFrame, FrameDecoder } from '../src/frame.js';
+
+describe('frame', () => {
+    describe('encodeFrame', () => {
+        test('prefixes payload with big-endian length', () => {
+            const frame = encodeFrame({ id: '1', op: 'ok' });
+            const length = new DataView(frame.buffer).getUint32(0);
+
+            expect(length).toBe(frame.length - 4);
+        });
+    });
+
+    describe('FrameDecoder', () => {
+        test('decodes a complete frame', () => {
+            const decoder = new FrameDecoder();
+
+            expect(decoder.push(encodeFrame({ id: '1', op: 'ok' }))).toEqual([{ id: '1', op: 'ok' }]);
+        });
+
+        test('decodes multiple frames from one chunk', () => {
+            const decoder = new FrameDecoder();
+            const a = encodeFrame({ id: '1' });
+            const b = encodeFrame({ id: '2' });
+            const chunk = new Uint8Array(a.length + b.length);
+
+            chunk.set(a);
+            chunk.set(b, a.length);
+
+            expect(decoder.push(chunk)).toEqual([{ id: '1' }, { id: '2' }]);
+        });
+
+        test('buffers partial frames across chunks', () => {
+            const decoder = new FrameDecoder();
+            const frame = encodeFrame({ id: '1', bytes: new Uint8Array([1, 2, 3]) });
+
+            expect(decoder.push(frame.slice(0, 2))).toEqual([]);
+            expect(decoder.push(frame.slice(2, 7))).toEqual([]);
+            expect(decoder.push(frame.slice(7))).toEqual([{ id: '1', bytes: new Uint8Array([1, 2, 3]) }]);
+        });
+
+        test('skips frames with invalid payloads', () => {
+            const decoder = new FrameDecoder();
+            // Two-element array header with no elements
+            const invalid = new Uint8Array([0, 0, 0, 1, 0x92]);
+
+            expect(decoder.push(invalid)).toEqual([]);
+            expect(decoder.push(encodeFrame('next'))).toEqual(['next']);
+        });
+    });
+});
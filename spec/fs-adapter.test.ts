@@ -0,0 +1,174 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { createFsAdapter, FsDirent, FsStats } from '../src/fs-adapter.js';
+import type { FsAdapter } from '../src/fs-adapter.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { FsError } from '../src/error.js';
+import { serveTree } from './mem-fs.js';
+
+describe('createFsAdapter', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let fs: FsAdapter;
+    let tree: Map<string, Uint8Array | 'folder'>;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        fs = createFsAdapter(client);
+        tree = serveTree(gateway);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    describe('readFile / writeFile', () => {
+        test('round-trips Buffers and strings', async () => {
+            await fs.writeFile('/a.txt', 'héllo');
+
+            const buffer = await fs.readFile('/a.txt');
+
+            expect(Buffer.isBuffer(buffer)).toBe(true);
+            expect(buffer.toString()).toBe('héllo');
+            expect(await fs.readFile('/a.txt', 'utf8')).toBe('héllo');
+            expect(await fs.readFile('/a.txt', { encoding: 'base64' })).toBe(Buffer.from('héllo').toString('base64'));
+        });
+
+        test('encodes string data with the given encoding', async () => {
+            await fs.writeFile('/b.bin', 'ff00', 'hex');
+
+            expect(tree.get('/b.bin')).toEqual(new Uint8Array([0xff, 0x00]));
+        });
+
+        test('accepts file: URLs', async () => {
+            await fs.writeFile(new URL('file:///c.txt'), 'x');
+
+            expect(await fs.readFile(new URL('file:///c.txt'), 'utf8')).toBe('x');
+        });
+
+        test('missing files fail like node:fs', async () => {
+            const err = await fs.readFile('/missing').catch(e => e);
+
+            expect(err).toBeInstanceOf(FsError);
+            expect(err).toMatchObject({ code: 'ENOENT', errno: -2, syscall: 'open', path: '/missing' });
+            expect(err.message).toBe("ENOENT: No such file or directory, open '/missing'");
+        });
+    });
+
+    describe('stat', () => {
+        test('maps gateway stats to fs.Stats', async () => {
+            await fs.writeFile('/a.txt', 'hello');
+
+            const stats = await fs.stat('/a.txt');
+
+            expect(stats).toBeInstanceOf(FsStats);
+            expect(stats.isFile()).toBe(true);
+            expect(stats.isDirectory()).toBe(false);
+            expect(stats.size).toBe(5);
+            expect(stats.mtime.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+            expect(stats.birthtime.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+            expect((await fs.stat('/')).isDirectory()).toBe(true);
+        });
+    });
+
+    describe('readdir', () => {
+        test('returns names or Dirents', async () => {
+            await fs.mkdir('/dir');
+            await fs.writeFile('/dir/a.txt', '');
+            await fs.mkdir('/dir/sub');
+
+            expect(await fs.readdir('/dir')).toEqual(['a.txt', 'sub']);
+
+            const entries = await fs.readdir('/dir', { withFileTypes: true }) as FsDirent[];
+
+            expect(entries.map(e => [e.name, e.isFile(), e.isDirectory(), e.parentPath])).toEqual([
+                ['a.txt', true, false, '/dir'],
+                ['sub', false, true, '/dir'],
+            ]);
+        });
+
+        test('reports scandir as the syscall', async () => {
+            await expect(fs.readdir('/nope')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'scandir' });
+        });
+    });
+
+    describe('mkdir', () => {
+        test('recursive creates parents and returns the first created', async () => {
+            await fs.mkdir('/a');
+
+            expect(await fs.mkdir('/a/b/c', { recursive: true })).toBe('/a/b');
+            expect(tree.get('/a/b/c')).toBe('folder');
+            expect(await fs.mkdir('/a/b/c', { recursive: true })).toBeUndefined();
+        });
+
+        test('recursive fails on an existing file', async () => {
+            await fs.writeFile('/f', '');
+
+            await expect(fs.mkdir('/f', { recursive: true })).rejects.toMatchObject({ code: 'EEXIST', syscall: 'mkdir' });
+        });
+
+        test('non-recursive fails on existing directories', async () => {
+            await fs.mkdir('/a');
+
+            await expect(fs.mkdir('/a')).rejects.toMatchObject({ code: 'EEXIST', syscall: 'mkdir', path: '/a' });
+        });
+    });
+
+    describe('rm', () => {
+        test('removes files', async () => {
+            await fs.writeFile('/a.txt', '');
+            await fs.rm('/a.txt');
+
+            expect(tree.has('/a.txt')).toBe(false);
+        });
+
+        test('refuses directories unless recursive', async () => {
+            await fs.mkdir('/d/e', { recursive: true });
+            await fs.writeFile('/d/e/f.txt', '');
+
+            await expect(fs.rm('/d')).rejects.toMatchObject({ code: 'EISDIR' });
+
+            await fs.rm('/d', { recursive: true });
+
+            expect([...tree.keys()]).toEqual(['/']);
+        });
+
+        test('force ignores missing paths', async () => {
+            await expect(fs.rm('/missing')).rejects.toMatchObject({ code: 'ENOENT' });
+            await fs.rm('/missing', { force: true });
+        });
+    });
+
+    describe('rename / access', () => {
+        test('renames and reports both paths on failure', async () => {
+            await fs.writeFile('/a', 'x');
+            await fs.rename('/a', '/b');
+
+            expect(await fs.readFile('/b', 'utf8')).toBe('x');
+
+            const err = await fs.rename('/a', '/c').catch(e => e);
+
+            expect(err).toMatchObject({ code: 'ENOENT', syscall: 'rename', path: '/a', dest: '/c' });
+            expect(err.message).toBe("ENOENT: No such file or directory, rename '/a' -> '/c'");
+        });
+
+        test('access checks existence', async () => {
+            await fs.access('/');
+            await expect(fs.access('/missing')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'access' });
+        });
+    });
+
+    test('functions work when destructured', async () => {
+        const { writeFile, readFile } = createFsAdapter(client);
+
+        await writeFile('/a', 'x');
+
+        expect(await readFile('/a', 'utf8')).toBe('x');
+    });
+});
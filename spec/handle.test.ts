@@ -0,0 +1,177 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { FileHandle } from '../src/handle.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { AbortError } from '../src/error.js';
+
+/**
+ * Gateway serving one text file in small data frames from a cursor.
+ */
+function serveText(gateway: MockGateway, text: string, frameSize = 5): void {
+    const content = new TextEncoder().encode(text);
+    let cursor = 0;
+
+    gateway
+        .on('file:open', () => 7)
+        .on('file:close', () => undefined)
+        .on('file:fstat', () => ({ id: 'f1', name: 'notes.txt', model: 'file', size: content.length }))
+        .on('file:write', ([, { data }]: [number, { data: Uint8Array }]) => ({ written: data.length }))
+        .on('file:read', ([, size]: [number, number?], reply) => {
+            const to = Math.min(content.length, cursor + (size ?? content.length));
+
+            for (let offset = cursor; offset < to; offset += frameSize) {
+                reply.data(content.subarray(offset, Math.min(to, offset + frameSize)));
+            }
+
+            cursor = to;
+        });
+}
+
+describe('FileHandle', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    test('binds syscalls to the descriptor', async () => {
+        serveText(gateway, 'hello');
+
+        const handle = await client.openHandle('/notes.txt', { read: true, write: true });
+
+        expect(handle).toBeInstanceOf(FileHandle);
+        expect(handle.fd).toBe(7);
+        expect(handle.path).toBe('/notes.txt');
+        expect(new TextDecoder().decode(await handle.read())).toBe('hello');
+        expect(await handle.write('abc')).toBe(3);
+        expect((await handle.stat()).size).toBe(5);
+
+        await handle.close();
+
+        expect(gateway.received('file:open')[0].args).toEqual(['/notes.txt', { read: true, write: true }]);
+        expect(gateway.received('file:fstat')[0].args).toEqual([7]);
+        expect(gateway.received('file:close')[0].args).toEqual([7]);
+    });
+
+    test('readLines splits across frames and strips CRLF', async () => {
+        serveText(gateway, 'first\r\nsecond line\n\nlast');
+
+        const handle = await client.openHandle('/notes.txt');
+        const lines: string[] = [];
+
+        for await (const line of handle.readLines()) {
+            lines.push(line);
+        }
+
+        expect(lines).toEqual(['first', 'second line', '', 'last']);
+        expect(handle.closed).toBe(false);
+    });
+
+    test('readLines decodes multi-byte characters split across frames', async () => {
+        serveText(gateway, 'héllo wörld\n', 2);
+
+        const handle = await client.openHandle('/notes.txt');
+        const lines: string[] = [];
+
+        for await (const line of handle.readLines()) {
+            lines.push(line);
+        }
+
+        expect(lines).toEqual(['héllo wörld']);
+    });
+
+    test('close is idempotent and later calls fail with EBADF', async () => {
+        serveText(gateway, 'hello');
+
+        const handle = await client.openHandle('/notes.txt');
+
+        await handle.close();
+        await handle.close();
+
+        expect(handle.closed).toBe(true);
+        expect(gateway.received('file:close')).toHaveLength(1);
+        await expect(handle.read()).rejects.toMatchObject({ code: 'EBADF' });
+        await expect(handle.readLines()[Symbol.asyncIterator]().next()).rejects.toMatchObject({ code: 'EBADF' });
+    });
+
+    test('a failed close keeps the descriptor for a retry', async () => {
+        serveText(gateway, 'hello');
+
+        const handle = await client.openHandle('/notes.txt');
+        const controller = new AbortController();
+
+        gateway.on('file:close', () => new Promise(() => {}));
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(handle.close({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+        expect(handle.closed).toBe(false);
+
+        client.close();
+        await Bun.sleep(10);
+
+        expect(handle.closed).toBe(true);
+        expect(gateway.received('file:close').map(r => r.args)).toEqual([[7], [7]]);
+    });
+
+    test('concurrent closes send one file:close', async () => {
+        serveText(gateway, 'hello');
+
+        const handle = await client.openHandle('/notes.txt');
+
+        await Promise.all([handle.close(), handle.close()]);
+
+        expect(gateway.received('file:close')).toHaveLength(1);
+    });
+
+    test('await using closes the handle when the scope exits', async () => {
+        serveText(gateway, 'hello');
+
+        let leaked: FileHandle | undefined;
+
+        try {
+            await using handle = await client.openHandle('/notes.txt');
+
+            leaked = handle;
+            throw new Error('boom');
+        }
+        catch {
+            // expected
+        }
+
+        expect(leaked!.closed).toBe(true);
+        expect(gateway.received('file:close')[0].args).toEqual([7]);
+    });
+
+    test('client.close() closes leaked handles', async () => {
+        serveText(gateway, 'hello');
+
+        const handle = await client.openHandle('/notes.txt');
+        const closed = await client.openHandle('/notes.txt');
+
+        await closed.close();
+        client.close();
+        await Bun.sleep(10);
+
+        expect(handle.closed).toBe(true);
+        expect(gateway.received('file:close').map(r => r.args)).toEqual([[7], [7]]);
+    });
+
+    test('readFile and writeFile close their descriptors', async () => {
+        serveText(gateway, 'hello');
+
+        expect(new TextDecoder().decode(await client.readFile('/notes.txt'))).toBe('hello');
+        await client.writeFile('/notes.txt', 'bye');
+
+        expect(gateway.received('file:close')).toHaveLength(2);
+    });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, test, beforeAll, afterAll, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { authenticate, hello, signChallenge, PROTOCOL_VERSION } from '../src/handshake.js';
+import type { Exchange } from '../src/handshake.js';
+import { Transport } from '../src/transport.js';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { ConnectionError } from '../src/error.js';
+import type { Request } from '../src/types.js';
+
+describe('authenticate', () => {
+    test('sends a token', async () => {
+        const calls: unknown[][] = [];
+        const exchange: Exchange = async (call, args) => {
+            calls.push([call, args]);
+
+            return { id: '1', op: 'ok' };
+        };
+
+        await authenticate(exchange, { token: 't0k' });
+
+        expect(calls).toEqual([['sys:auth', [{ scheme: 'token', token: 't0k' }]]]);
+    });
+
+    test('answers a challenge with an HMAC of the nonce', async () => {
+        const calls: unknown[][] = [];
+        const exchange: Exchange = async (call, args) => {
+            calls.push([call, args]);
+
+            return call === 'sys:challenge'
+                ? { id: '1', op: 'ok', data: { nonce: 'abc' } }
+                : { id: '2', op: 'ok' };
+        };
+
+        await authenticate(exchange, { secret: 's3cret' });
+
+        expect(calls[1]).toEqual(['sys:auth', [{ scheme: 'hmac', digest: signChallenge('s3cret', 'abc') }]]);
+    });
+
+    test('maps gateway errors to EACCES', async () => {
+        const exchange: Exchange = async () => ({ id: '1', op: 'error', code: 'EPERM', message: 'nope' });
+        const error = await authenticate(exchange, { token: 'x' }).catch((err: Error) => err);
+
+        expect(error).toBeInstanceOf(ConnectionError);
+        expect((error as ConnectionError).code).toBe('EACCES');
+    });
+
+    test('rejects a challenge without a nonce', async () => {
+        const exchange: Exchange = async () => ({ id: '1', op: 'ok' });
+        const error = await authenticate(exchange, { secret: 'x' }).catch((err: Error) => err);
+
+        expect((error as ConnectionError).code).toBe('EPROTO');
+    });
+});
+
+describe('hello', () => {
+    test('returns the advertised capabilities', async () => {
+        const exchange: Exchange = async () => ({
+            id: '1',
+            op: 'ok',
+            data: { protocol: PROTOCOL_VERSION, version: '2.1', syscalls: ['file:stat', 7], features: ['binary'] },
+        });
+
+        expect(await hello(exchange)).toEqual({
+            protocol: PROTOCOL_VERSION,
+            version: '2.1',
+            syscalls: ['file:stat'],
+            features: ['binary'],
+        });
+    });
+
+    test('returns undefined for gateways without hello', async () => {
+        const exchange: Exchange = async () => ({ id: '1', op: 'error', code: 'ENOSYS', message: 'Unknown syscall' });
+
+        expect(await hello(exchange)).toBeUndefined();
+    });
+
+    test('treats other errors as unknown capabilities', async () => {
+        const exchange: Exchange = async () => ({ id: '1', op: 'error', code: 'EINVAL', message: 'Bad call' });
+
+        expect(await hello(exchange)).toBeUndefined();
+    });
+
+    test('keeps lists the gateway left out unknown', async () => {
+        const exchange: Exchange = async () => ({ id: '1', op: 'ok', data: { protocol: PROTOCOL_VERSION } });
+
+        expect(await hello(exchange)).toEqual({
+            protocol: PROTOCOL_VERSION,
+            version: undefined,
+            syscalls: undefined,
+            features: undefined,
+        });
+    });
+
+    test('rejects another protocol version', async () => {
+        const exchange: Exchange = async () => ({ id: '1', op: 'ok', data: { protocol: PROTOCOL_VERSION + 1 } });
+        const error = await hello(exchange).catch((err: Error) => err);
+
+        expect((error as ConnectionError).code).toBe('EPROTO');
+        expect((error as Error).message).toContain('Unsupported gateway protocol version');
+    });
+});
+
+describe('Transport handshake', () => {
+    let gateway: MockGateway;
+    let transport: Transport;
+
+    afterEach(() => {
+        transport.close();
+        gateway.stop();
+    });
+
+    async function start(auth: { token?: string; secret?: string }): Promise<void> {
+        gateway = new MockGateway({ auth }).on('proc:getpid', () => ({ pid: 1 }));
+        await gateway.start();
+        transport = new Transport();
+    }
+
+    test('authenticates with a token before connecting', async () => {
+        await start({ token: 'right' });
+        await transport.connect({ socketPath: gateway.socketPath, auth: { token: 'right' } });
+
+        expect(transport.getState()).toBe('connected');
+
+        const responses = await transport.send({ id: 'a', call: 'proc:getpid', args: [] });
+
+        expect(responses).toEqual([{ id: 'a', op: 'ok', data: { pid: 1 } }]);
+    });
+
+    test('authenticates with a shared secret', async () => {
+        await start({ secret: 'shared' });
+        await transport.connect({ socketPath: gateway.socketPath, auth: { secret: 'shared' } });
+
+        expect(gateway.received('sys:challenge')).toHaveLength(1);
+        expect(transport.getState()).toBe('connected');
+    });
+
+    test('wrong credentials fail with EACCES', async () => {
+        await start({ token: 'right', secret: 'shared' });
+
+        for (const auth of [{ token: 'wrong' }, { secret: 'wrong' }]) {
+            const error = await transport.connect({ socketPath: gateway.socketPath, auth })
+                .catch((err: Error) => err);
+
+            expect(error).toBeInstanceOf(ConnectionError);
+            expect((error as ConnectionError).code).toBe('EACCES');
+            expect(transport.getState()).toBe('disconnected');
+        }
+    });
+
+    test('connecting without credentials fails with EACCES', async () => {
+        await start({ token: 'right' });
+
+        const error = await transport.connect({ socketPath: gateway.socketPath }).catch((err: Error) => err);
+
+        expect((error as ConnectionError).code).toBe('EACCES');
+        expect(gateway.received('sys:hello')).toHaveLength(1);
+    });
+
+    test('re-authenticates after reconnecting', async () => {
+        await start({ token: 'right' });
+        await transport.connect({
+            socketPath: gateway.socketPath,
+            auth: { token: 'right' },
+            reconnect: { initialDelay: 10, jitter: 0 },
+        });
+
+        gateway.disconnect();
+
+        while (transport.getState() !== 'reconnecting') {
+            await Bun.sleep(1);
+        }
+
+        const queued = transport.send({ id: 'a', call: 'proc:getpid', args: [] });
+
+        expect(await queued).toEqual([{ id: 'a', op: 'ok', data: { pid: 1 } }]);
+
+        const calls = gateway.requests.map((request: Request) => request.call);
+
+        expect(calls).toEqual(['sys:auth', 'sys:hello', 'sys:auth', 'sys:hello', 'proc:getpid']);
+    });
+});
+
+describe.skipIf(!Bun.which('openssl'))('TLS', () => {
+    let dir: string;
+    let cert: string;
+    let key: string;
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'monk-tls-'));
+
+        const result = Bun.spawnSync([
+            'openssl', 'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1',
+            '-subj', '/CN=localhost',
+            '-addext', 'subjectAltName=IP:127.0.0.1,DNS:localhost',
+            '-keyout', join(dir, 'key.pem'),
+            '-out', join(dir, 'cert.pem'),
+        ], { stdout: 'ignore', stderr: 'ignore' });
+
+        if (!result.success) {
+            throw new Error('openssl failed to generate a test certificate');
+        }
+
+        cert = readFileSync(join(dir, 'cert.pem'), 'utf8');
+        key = readFileSync(join(dir, 'key.pem'), 'utf8');
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    test('connects over TLS with a trusted CA and token', async () => {
+        gateway = new MockGateway({ transport: 'tcp', tls: { cert, key }, auth: { token: 't' } })
+            .on('proc:getpid', () => 7);
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect({ url: gateway.url, tls: { ca: cert }, auth: { token: 't' } });
+
+        expect(gateway.url.startsWith('tls://')).toBe(true);
+        expect(await client.getpid()).toBe('7');
+    });
+
+    test('rejects an untrusted certificate', async () => {
+        gateway = new MockGateway({ transport: 'tcp', tls: { cert, key } });
+        await gateway.start();
+
+        client = new OSClient();
+
+        const error = await client.connect({ url: gateway.url, timeout: 2000 }).catch((err: Error) => err);
+
+        expect(error).toBeInstanceOf(ConnectionError);
+        expect((error as ConnectionError).code).toBe('EACCES');
+        expect(client.isConnected()).toBe(false);
+    });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { AbortError, SyscallError, TimeoutError } from '../src/error.js';
+import { serveTree } from './mem-fs.js';
+
+describe('file locks', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let tree: Map<string, Uint8Array | 'folder'>;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        tree = serveTree(gateway);
+        tree.set('/app', 'folder');
+        tree.set('/app/config.json', new TextEncoder().encode('{}'));
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    describe('file:flock', () => {
+        /** Locks by fd (every test locks the same file) */
+        let held: Map<number, boolean>;
+
+        beforeEach(() => {
+            held = new Map();
+
+            gateway
+                .on('file:flock', ([fd, { exclusive }]: [number, { exclusive: boolean }]) => {
+                    if ([...held.values()].some(other => exclusive || other)) {
+                        throw new SyscallError('EAGAIN', 'Resource temporarily unavailable');
+                    }
+
+                    held.set(fd, exclusive);
+                })
+                .on('file:close', ([fd]: [number]) => {
+                    held.delete(fd);
+                });
+        });
+
+        test('locks an open descriptor', async () => {
+            const lock = await client.lock('/app/config.json');
+
+            expect(lock.exclusive).toBe(true);
+            expect(lock.lockPath).toBeUndefined();
+            expect(gateway.received('file:open')[0].args).toEqual(['/app/config.json', { read: true }]);
+            expect(held.size).toBe(1);
+
+            await lock.release();
+
+            expect(lock.released).toBe(true);
+            expect(held.size).toBe(0);
+        });
+
+        test('tryLock returns undefined on conflict', async () => {
+            const lock = await client.lock('/app/config.json');
+
+            expect(await client.tryLock('/app/config.json')).toBeUndefined();
+            expect(await client.tryLock('/app/config.json', { exclusive: false })).toBeUndefined();
+
+            // The failed attempts closed their descriptors
+            expect(gateway.received('file:close')).toHaveLength(2);
+
+            await lock.release();
+            expect(await client.tryLock('/app/config.json')).toBeDefined();
+        });
+
+        test('shared locks coexist', async () => {
+            const first = await client.tryLock('/app/config.json', { exclusive: false });
+            const second = await client.tryLock('/app/config.json', { exclusive: false });
+
+            expect(first?.exclusive).toBe(false);
+            expect(second).toBeDefined();
+            expect(await client.tryLock('/app/config.json')).toBeUndefined();
+        });
+
+        test('lock waits for the holder to release', async () => {
+            const holder = await client.lock('/app/config.json');
+
+            setTimeout(() => holder.release(), 60);
+
+            const lock = await client.lock('/app/config.json', { timeout: 2000 });
+
+            expect(holder.released).toBe(true);
+            expect(lock.released).toBe(false);
+        });
+
+        test('lock fails with TimeoutError', async () => {
+            await client.lock('/app/config.json');
+
+            const started = Date.now();
+
+            await expect(client.lock('/app/config.json', { timeout: 80 })).rejects.toBeInstanceOf(TimeoutError);
+            expect(Date.now() - started).toBeGreaterThanOrEqual(75);
+        });
+
+        test('lock rejects with AbortError when aborted', async () => {
+            await client.lock('/app/config.json');
+
+            const controller = new AbortController();
+
+            setTimeout(() => controller.abort(), 30);
+
+            await expect(client.lock('/app/config.json', { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+        });
+
+        test('await using releases the lock', async () => {
+            {
+                await using _lock = await client.lock('/app/config.json');
+
+                expect(held.size).toBe(1);
+            }
+
+            expect(held.size).toBe(0);
+        });
+
+        test('unlock releases locks by path', async () => {
+            await client.lock('/app/config.json', { exclusive: false });
+            await client.lock('/app/config.json', { exclusive: false });
+
+            await client.unlock('/app/config.json');
+
+            expect(held.size).toBe(0);
+        });
+
+        test('closing the client releases held locks', async () => {
+            const lock = await client.lock('/app/config.json');
+
+            client.close();
+            await Bun.sleep(20);
+
+            expect(lock.released).toBe(true);
+            expect(held.size).toBe(0);
+        });
+
+        test('a failed release keeps the lock for a retry', async () => {
+            const lock = await client.lock('/app/config.json');
+            const controller = new AbortController();
+
+            gateway.on('file:close', () => new Promise(() => {}));
+            setTimeout(() => controller.abort(), 10);
+
+            await expect(lock.release({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+            expect(lock.released).toBe(false);
+
+            gateway.on('file:close', ([fd]: [number]) => {
+                held.delete(fd);
+            });
+            await client.unlock('/app/config.json');
+
+            expect(lock.released).toBe(true);
+            expect(held.size).toBe(0);
+        });
+
+        test('missing files fail with ENOENT', async () => {
+            await expect(client.lock('/app/missing.json')).rejects.toMatchObject({ code: 'ENOENT' });
+        });
+    });
+
+    describe('lock entity fallback', () => {
+        test('creates and removes a lock entity', async () => {
+            const lock = await client.lock('/app/config.json', { exclusive: false });
+
+            // Emulated locks are always exclusive
+            expect(lock.exclusive).toBe(true);
+            expect(lock.lockPath).toBe('/app/config.json.lock');
+
+            // After file:flock answered ENOSYS
+            expect(gateway.received('file:open').at(-1)!.args).toEqual([
+                '/app/config.json.lock',
+                { write: true, create: true, exclusive: true },
+            ]);
+
+            const owner = JSON.parse(new TextDecoder().decode(tree.get('/app/config.json.lock') as Uint8Array));
+
+            expect(owner.pid).toBe(process.pid);
+            expect(typeof owner.acquired_at).toBe('string');
+
+            await lock.release();
+
+            expect(tree.has('/app/config.json.lock')).toBe(false);
+        });
+
+        test('an existing lock entity means the lock is held', async () => {
+            await client.lock('/app/config.json');
+
+            expect(await client.tryLock('/app/config.json')).toBeUndefined();
+            await expect(client.lock('/app/config.json', { timeout: 50 })).rejects.toBeInstanceOf(TimeoutError);
+        });
+
+        test('release is idempotent', async () => {
+            const lock = await client.lock('/app/config.json');
+
+            await lock.release();
+            await lock.release();
+
+            expect(gateway.received('file:unlink')).toHaveLength(1);
+        });
+
+        test('closing the client removes lock entities', async () => {
+            await client.lock('/app/config.json');
+
+            client.close();
+            await Bun.sleep(20);
+
+            expect(tree.has('/app/config.json.lock')).toBe(false);
+        });
+
+        test('skips file:flock when the gateway does not list it', async () => {
+            const advertised = new MockGateway({ syscalls: true });
+            const files = serveTree(advertised);
+            const other = new OSClient();
+
+            files.set('/config.json', new Uint8Array());
+            await advertised.start();
+
+            try {
+                await other.connect(advertised.url);
+
+                const lock = await other.lock('/config.json');
+
+                expect(lock.lockPath).toBe('/config.json.lock');
+                expect(advertised.received('file:flock')).toEqual([]);
+            }
+            finally {
+                other.close();
+                advertised.stop();
+            }
+        });
+    });
+});
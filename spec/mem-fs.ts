@@ -0,0 +1,141 @@
+/**
+ * In-memory filesystem for specs: MockGateway handlers for the file:*
+ * syscalls backed by a Map of path -> contents ('folder' for folders).
+ */
+
+import { posix } from 'node:path';
+import { MockGateway } from '../src/mock-gateway.js';
+import { SyscallError } from '../src/error.js';
+import type { OpenFlags } from '../src/types.js';
+
+/**
+ * Gateway handlers backed by an in-memory tree of files and folders.
+ */
+export function serveTree(gateway: MockGateway): Map<string, Uint8Array | 'folder'> {
+    const tree = new Map<string, Uint8Array | 'folder'>([['/', 'folder']]);
+    const times = new Map<string, Record<string, string>>();
+    const open = new Map<number, { path: string; position: number }>();
+    let nextFd = 3;
+
+    const lookup = (path: string) => {
+        const node = tree.get(path);
+
+        if (node === undefined) {
+            throw new SyscallError('ENOENT', 'No such file or directory');
+        }
+
+        return node;
+    };
+
+    const requireParent = (path: string) => {
+        if (lookup(posix.dirname(path)) !== 'folder') {
+            throw new SyscallError('ENOTDIR', 'Not a directory');
+        }
+    };
+
+    gateway
+        .on('file:stat', ([path]: [string]) => {
+            const node = lookup(path);
+
+            return {
+                id: path,
+                name: posix.basename(path),
+                model: node === 'folder' ? 'folder' : 'file',
+                size: node === 'folder' ? 0 : node.length,
+                created_at: '2024-01-01T00:00:00.000Z',
+                updated_at: '2024-01-02T00:00:00.000Z',
+                ...times.get(path),
+            };
+        })
+        .on('file:utimes', ([path, stamps]: [string, Record<string, string>]) => {
+            lookup(path);
+            times.set(path, { ...times.get(path), ...stamps });
+        })
+        .on('file:open', ([path, flags]: [string, OpenFlags?]) => {
+            if (!tree.has(path)) {
+                if (!flags?.create) {
+                    throw new SyscallError('ENOENT', 'No such file or directory');
+                }
+
+                requireParent(path);
+                tree.set(path, new Uint8Array());
+            }
+            else if (flags?.create && flags?.exclusive) {
+                throw new SyscallError('EEXIST', 'File exists');
+            }
+            else if (tree.get(path) === 'folder') {
+                throw new SyscallError('EISDIR', 'Is a directory');
+            }
+            else if (flags?.truncate) {
+                tree.set(path, new Uint8Array());
+            }
+
+            open.set(nextFd, { path, position: 0 });
+
+            return nextFd++;
+        })
+        .on('file:close', ([fd]: [number]) => {
+            open.delete(fd);
+        })
+        .on('file:read', ([fd, size]: [number, number?], reply) => {
+            const file = open.get(fd)!;
+            const content = tree.get(file.path) as Uint8Array;
+            const end = size === undefined ? content.length : Math.min(content.length, file.position + size);
+
+            reply.data(content.subarray(file.position, end));
+            file.position = Math.max(file.position, end);
+        })
+        .on('file:write', ([fd, { data }]: [number, { data: Uint8Array }]) => {
+            const { path } = open.get(fd)!;
+
+            tree.set(path, new Uint8Array(Buffer.concat([tree.get(path) as Uint8Array, data])));
+
+            return { written: data.length };
+        })
+        .on('file:mkdir', ([path]: [string]) => {
+            if (tree.has(path)) {
+                throw new SyscallError('EEXIST', 'File exists');
+            }
+
+            requireParent(path);
+            tree.set(path, 'folder');
+        })
+        .on('file:readdir', ([path]: [string], reply) => {
+            lookup(path);
+
+            for (const [child, node] of tree) {
+                if (child !== '/' && posix.dirname(child) === path) {
+                    reply.item({ name: posix.basename(child), model: node === 'folder' ? 'folder' : 'file' });
+                }
+            }
+        })
+        .on('file:unlink', ([path]: [string]) => {
+            lookup(path);
+            tree.delete(path);
+        })
+        .on('file:rmdir', ([path]: [string]) => {
+            lookup(path);
+
+            if ([...tree.keys()].some(child => child !== path && child.startsWith(`${path}/`))) {
+                throw new SyscallError('ENOTEMPTY', 'Directory not empty');
+            }
+
+            tree.delete(path);
+        })
+        .on('file:rename', ([from, to]: [string, string]) => {
+            lookup(from);
+
+            for (const [path, node] of [...tree]) {
+                if (path === from || path.startsWith(`${from}/`)) {
+                    const target = to + path.slice(from.length);
+
+                    tree.set(target, node);
+                    tree.delete(path);
+                    times.set(target, times.get(path) ?? {});
+                    times.delete(path);
+                }
+            }
+        });
+
+    return tree;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { MockGateway } from '../src/mock-gateway.js';
+import { Transport } from '../src/transport.js';
+import { SyscallError } from '../src/error.js';
+import type { Response } from '../src/types.js';
+
+describe('MockGateway', () => {
+    let gateway: MockGateway;
+    let transport: Transport;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        transport = new Transport();
+        await transport.connect({ socketPath: gateway.socketPath });
+    });
+
+    afterEach(() => {
+        transport.close();
+        gateway.stop();
+    });
+
+    const send = (call: string, ...args: unknown[]) =>
+        transport.send({ id: transport.generateId(), call, args });
+
+    test('uses a unique temp socket path per instance', () => {
+        expect(new MockGateway().socketPath).not.toBe(gateway.socketPath);
+    });
+
+    test('answers unknown syscalls with ENOSYS', async () => {
+        const [response] = await send('nope:nothing');
+
+        expect(response).toMatchObject({ op: 'error', code: 'ENOSYS' });
+    });
+
+    test('sends return value as ok', async () => {
+        gateway.on('proc:getcwd', () => '/home');
+
+        const [response] = await send('proc:getcwd');
+
+        expect(response).toMatchObject({ op: 'ok', data: '/home' });
+    });
+
+    test('passes request args to the handler', async () => {
+        gateway.on('file:stat', ([path]) => ({ name: path }));
+
+        const [response] = await send('file:stat', '/etc');
+
+        expect(response).toMatchObject({ op: 'ok', data: { name: '/etc' } });
+    });
+
+    test('ends streams with done', async () => {
+        gateway.on('file:readdir', (_args, reply) => {
+            reply.progress({ done: 0, total: 2 });
+            reply.item({ name: 'a' });
+            reply.data(new Uint8Array([1]));
+        });
+
+        const responses = await send('file:readdir', '/');
+
+        expect(responses.map(r => r.op)).toEqual(['progress', 'item', 'data', 'done']);
+    });
+
+    test('does not send anything after a terminal response', async () => {
+        gateway.on('file:stat', (_args, reply) => {
+            reply.error('ENOENT', 'No such file');
+            reply.ok({ late: true });
+        });
+
+        const responses = await send('file:stat', '/x');
+
+        expect(responses).toEqual([expect.objectContaining({ op: 'error', code: 'ENOENT' })]);
+    });
+
+    test('maps thrown SyscallError to error response', async () => {
+        gateway.on('file:stat', () => {
+            throw new SyscallError('EACCES', 'Permission denied');
+        });
+
+        const [response] = await send('file:stat', '/x');
+
+        expect(response).toMatchObject({ op: 'error', code: 'EACCES', message: 'Permission denied' });
+    });
+
+    test('maps other exceptions to EIO', async () => {
+        gateway.on('file:stat', async () => {
+            throw new Error('boom');
+        });
+
+        const [response] = await send('file:stat', '/x');
+
+        expect(response).toMatchObject({ op: 'error', code: 'EIO', message: 'boom' });
+    });
+
+    test('records requests', async () => {
+        gateway.on('proc:getpid', () => 1);
+
+        await send('proc:getpid');
+        await send('nope:nothing', 1, 2);
+
+        expect(gateway.requests.map(r => r.call)).toEqual(['sys:hello', 'proc:getpid', 'nope:nothing']);
+        expect(gateway.received('nope:nothing')[0].args).toEqual([1, 2]);
+    });
+
+    test('aborts handler signal on cancel', async () => {
+        let aborted = false;
+
+        gateway.on('ems:select', (_args, reply) => {
+            reply.item({ n: 1 });
+
+            return new Promise<void>((resolve) => {
+                reply.signal.addEventListener('abort', () => {
+                    aborted = true;
+                    resolve();
+                });
+            });
+        });
+
+        for await (const _ of transport.stream({ id: transport.generateId(), call: 'ems:select', args: [] })) {
+            break;
+        }
+
+        await Bun.sleep(5);
+
+        expect(aborted).toBe(true);
+    });
+
+    test('broadcast reaches connected clients', async () => {
+        const responses: Response[] = [];
+
+        gateway.on('file:watch', async (_args, reply) => {
+            gateway.broadcast({ id: reply.request.id, op: 'event', data: { type: 'change' } });
+        });
+
+        for await (const response of transport.stream({ id: transport.generateId(), call: 'file:watch', args: [] })) {
+            responses.push(response);
+        }
+
+        expect(responses.map(r => r.op)).toEqual(['event', 'ok']);
+    });
+
+    test('disconnect drops clients but keeps listening', async () => {
+        gateway.disconnect();
+
+        while (transport.isConnected()) {
+            await Bun.sleep(1);
+        }
+
+        await transport.connect({ socketPath: gateway.socketPath });
+
+        expect(transport.isConnected()).toBe(true);
+    });
+});
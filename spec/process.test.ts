@@ -0,0 +1,391 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import type { MockReply } from '../src/mock-gateway.js';
+import { AbortError, SyscallError } from '../src/error.js';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Read a stream to the end as text.
+ */
+async function text(stream: ReadableStream<Uint8Array> | null): Promise<string> {
+    return new Response(stream).text();
+}
+
+describe('Process', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        gateway.on('proc:spawn', () => 7);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    test('spawn returns a process handle', async () => {
+        const child = await client.spawn('/bin/worker');
+
+        expect(child.pid).toBe('7');
+        expect(child.path).toBe('/bin/worker');
+        expect(`${child}`).toBe('7');
+        expect(child.exited).toBeUndefined();
+    });
+
+    describe('wait', () => {
+        test('resolves with the exit status', async () => {
+            gateway.on('proc:wait', async () => {
+                await Bun.sleep(10);
+
+                return { code: 3, signal: null };
+            });
+
+            const child = await client.spawn('/bin/worker');
+
+            expect(await child.wait()).toEqual({ code: 3, signal: null });
+            expect(child.exited).toEqual({ code: 3, signal: null });
+            expect(gateway.received('proc:wait')[0].args).toEqual(['7']);
+        });
+
+        test('reports the killing signal', async () => {
+            gateway.on('proc:wait', () => ({ signal: 'SIGKILL' }));
+
+            expect(await client.wait('7')).toEqual({ code: null, signal: 'SIGKILL' });
+        });
+
+        test('shares one proc:wait and remembers the result', async () => {
+            gateway.on('proc:wait', async () => {
+                await Bun.sleep(10);
+
+                return { code: 0 };
+            });
+
+            const child = await client.spawn('/bin/worker');
+            const [first, second] = await Promise.all([child.wait(), child.wait()]);
+
+            expect(first).toEqual({ code: 0, signal: null });
+            expect(second).toEqual(first);
+            expect(await child.wait()).toEqual(first);
+            expect(gateway.received('proc:wait')).toHaveLength(1);
+        });
+
+        test('is not limited by the response timeout', async () => {
+            gateway.on('proc:wait', async () => {
+                await Bun.sleep(60);
+
+                return { code: 0 };
+            });
+
+            expect(await client.wait('7', { timeout: 20 })).toEqual({ code: 0, signal: null });
+        });
+
+        test('stops waiting when aborted', async () => {
+            gateway.on('proc:wait', (_args, reply) => new Promise<void>((resolve) => {
+                reply.signal.addEventListener('abort', () => resolve());
+            }));
+
+            const child = await client.spawn('/bin/worker');
+            const controller = new AbortController();
+
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(child.wait({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+            expect(child.exited).toBeUndefined();
+        });
+
+        test('a failed wait can be retried', async () => {
+            let calls = 0;
+
+            gateway.on('proc:wait', () => {
+                if (++calls === 1) {
+                    throw new SyscallError('EINTR', 'Interrupted');
+                }
+
+                return { code: 0 };
+            });
+
+            const child = await client.spawn('/bin/worker');
+
+            await expect(child.wait()).rejects.toMatchObject({ code: 'EINTR' });
+            expect(await child.wait()).toEqual({ code: 0, signal: null });
+        });
+    });
+
+    describe('status', () => {
+        test('reports a running process', async () => {
+            gateway.on('proc:wait', () => null);
+
+            const child = await client.spawn('/bin/worker');
+
+            expect(await child.status()).toEqual({ state: 'running' });
+            expect(gateway.received('proc:wait')[0].args).toEqual(['7', { nohang: true }]);
+        });
+
+        test('reports and remembers an exited process', async () => {
+            gateway.on('proc:wait', () => ({ code: 1, signal: null }));
+
+            const child = await client.spawn('/bin/worker');
+
+            expect(await child.status()).toEqual({ state: 'exited', code: 1, signal: null });
+            expect(await child.wait()).toEqual({ code: 1, signal: null });
+            expect(gateway.received('proc:wait')).toHaveLength(1);
+        });
+
+        test('tryWait returns undefined while running', async () => {
+            gateway.on('proc:wait', () => ({}));
+
+            expect(await client.tryWait('7')).toBeUndefined();
+        });
+    });
+
+    describe('kill', () => {
+        test('sends SIGTERM by default', async () => {
+            gateway.on('proc:kill', () => undefined);
+
+            const child = await client.spawn('/bin/worker');
+
+            await child.kill();
+            await child.kill('SIGKILL');
+
+            expect(gateway.received('proc:kill').map(request => request.args)).toEqual([
+                ['7', 'SIGTERM'],
+                ['7', 'SIGKILL'],
+            ]);
+        });
+
+        test('fails with ESRCH for unknown processes', async () => {
+            gateway.on('proc:kill', () => {
+                throw new SyscallError('ESRCH', 'No such process');
+            });
+
+            await expect(client.kill('99')).rejects.toMatchObject({ code: 'ESRCH' });
+        });
+    });
+
+    describe('stdio', () => {
+        test('pipes stdout and stderr and takes the exit status from the stream', async () => {
+            gateway.on('proc:spawn', (_args, reply) => {
+                reply.item({ pid: 9 });
+                reply.data(encode('hello '), 'stdout');
+                reply.data(encode('oops'), 'stderr');
+                reply.data(encode('world'), 'stdout');
+                reply.ok({ code: 2, signal: null });
+            });
+
+            const child = await client.spawn('/bin/build', { args: ['-v'], stdio: { stdout: 'pipe', stderr: 'pipe' } });
+
+            expect(child.pid).toBe('9');
+            expect(child.stdin).toBeNull();
+            expect(await text(child.stdout)).toBe('hello world');
+            expect(await text(child.stderr)).toBe('oops');
+            expect(await child.wait()).toEqual({ code: 2, signal: null });
+            expect(gateway.received('proc:spawn')[0].args).toEqual([
+                '/bin/build',
+                { args: ['-v'], stdio: { stdin: 'ignore', stdout: 'pipe', stderr: 'pipe' } },
+            ]);
+            expect(gateway.received('proc:wait')).toEqual([]);
+        });
+
+        test('writes stdin with proc:stdin and closes it with end', async () => {
+            let spawned!: MockReply;
+
+            gateway
+                .on('proc:spawn', (_args, reply) => {
+                    spawned = reply;
+                    reply.item({ pid: 9 });
+
+                    return new Promise<void>(resolve => reply.signal.addEventListener('abort', () => resolve()));
+                })
+                .on('proc:stdin', ([, { data, end }]: [string, { data?: Uint8Array; end?: boolean }]) => {
+                    if (end) {
+                        spawned.ok({ code: 0 });
+                    }
+                    else {
+                        spawned.data(new Uint8Array(data!), 'stdout');
+                    }
+                });
+
+            const child = await client.spawn('/bin/cat', { stdio: 'pipe' });
+            const writer = child.stdin!.getWriter();
+
+            await writer.write(encode('ping'));
+            await writer.close();
+
+            expect(await text(child.stdout)).toBe('ping');
+            expect(await child.wait()).toEqual({ code: 0, signal: null });
+            expect(gateway.received('proc:stdin').map(request => request.args[1])).toEqual([
+                { data: encode('ping') },
+                { end: true },
+            ]);
+        });
+
+        test('does not pipe by default', async () => {
+            const child = await client.spawn('/bin/worker');
+
+            expect(child.stdin).toBeNull();
+            expect(child.stdout).toBeNull();
+            expect(child.stderr).toBeNull();
+        });
+
+        test('asks proc:wait when the stream ends without a status', async () => {
+            gateway
+                .on('proc:spawn', (_args, reply) => {
+                    reply.item({ pid: 9 });
+                    reply.data(encode('out'), 'stdout');
+                })
+                .on('proc:wait', () => ({ code: 0 }));
+
+            const child = await client.spawn('/bin/worker', { stdio: { stdout: 'pipe' } });
+
+            expect(await text(child.stdout)).toBe('out');
+            expect(await child.wait()).toEqual({ code: 0, signal: null });
+            expect(gateway.received('proc:wait')[0].args).toEqual(['9']);
+        });
+
+        test('spawn failures reject', async () => {
+            gateway.on('proc:spawn', () => {
+                throw new SyscallError('ENOENT', 'No such file');
+            });
+
+            await expect(client.spawn('/bin/missing', { stdio: 'pipe' })).rejects.toMatchObject({ code: 'ENOENT' });
+        });
+
+        test('stream errors fail the output; wait falls back to proc:wait', async () => {
+            gateway
+                .on('proc:spawn', (_args, reply) => {
+                    reply.item({ pid: 9 });
+                    reply.error('EIO', 'Output lost');
+                })
+                .on('proc:wait', () => ({ code: 0 }));
+
+            const child = await client.spawn('/bin/worker', { stdio: { stdout: 'pipe' } });
+
+            await expect(text(child.stdout)).rejects.toMatchObject({ code: 'EIO' });
+            expect(await child.wait()).toEqual({ code: 0, signal: null });
+        });
+    });
+
+    describe('exec', () => {
+        test('collects output and exit status', async () => {
+            gateway.on('proc:spawn', (_args, reply) => {
+                reply.item({ pid: 9 });
+                reply.data(encode('built\n'), 'stdout');
+                reply.data(encode('1 warning\n'), 'stderr');
+                reply.ok({ code: 1 });
+            });
+
+            const result = await client.exec('/bin/tsc', ['--noEmit'], { cwd: '/app', env: { CI: '1' } });
+
+            expect(result).toEqual({ code: 1, signal: null, stdout: 'built\n', stderr: '1 warning\n' });
+            expect(gateway.received('proc:spawn')[0].args).toEqual([
+                '/bin/tsc',
+                {
+                    args: ['--noEmit'],
+                    env: { CI: '1' },
+                    cwd: '/app',
+                    stdio: { stdin: 'ignore', stdout: 'pipe', stderr: 'pipe' },
+                },
+            ]);
+        });
+
+        test('writes input to stdin', async () => {
+            let spawned!: MockReply;
+
+            gateway
+                .on('proc:spawn', (_args, reply) => {
+                    spawned = reply;
+                    reply.item({ pid: 9 });
+
+                    return new Promise<void>(resolve => reply.signal.addEventListener('abort', () => resolve()));
+                })
+                .on('proc:stdin', ([, { data, end }]: [string, { data?: Uint8Array; end?: boolean }]) => {
+                    if (end) {
+                        spawned.ok({ code: 0 });
+                    }
+                    else {
+                        spawned.data(new TextEncoder().encode(new TextDecoder().decode(data).toUpperCase()), 'stdout');
+                    }
+                });
+
+            const { stdout, code } = await client.exec('/bin/upper', [], { input: 'shout' });
+
+            expect(stdout).toBe('SHOUT');
+            expect(code).toBe(0);
+        });
+    });
+
+    describe('ps', () => {
+        const table = [
+            { pid: 1, ppid: null, path: '/sbin/init', cwd: '/', state: 'sleeping', started_at: '2024-01-01T00:00:00.000Z' },
+            { pid: 2, ppid: 1, path: '/bin/shell', cwd: '/home', state: 'running', started_at: '2024-01-01T00:00:01.000Z' },
+            { pid: 3, ppid: 2, path: '/bin/build', cwd: '/app', state: 'running', started_at: '2024-01-01T00:00:02.000Z' },
+            { pid: 4, ppid: 2, path: '/bin/watch', cwd: '/app', state: 'stopped', started_at: '2024-01-01T00:00:03.000Z' },
+            { pid: 5, ppid: 3, path: '/bin/cc', cwd: '/app', state: 'zombie', started_at: '2024-01-01T00:00:04.000Z' },
+        ];
+
+        beforeEach(() => {
+            gateway.on('proc:list', (_args, reply) => {
+                for (const record of table) {
+                    reply.item(record);
+                }
+            });
+        });
+
+        test('yields typed records with string pids', async () => {
+            const records = [];
+
+            for await (const record of client.ps()) {
+                records.push(record);
+            }
+
+            expect(records).toHaveLength(5);
+            expect(records[0]).toEqual({
+                pid: '1',
+                ppid: '',
+                path: '/sbin/init',
+                cwd: '/',
+                state: 'sleeping',
+                started_at: '2024-01-01T00:00:00.000Z',
+            });
+            expect(records[2]).toMatchObject({ pid: '3', ppid: '2' });
+        });
+
+        test('filters by parent and state', async () => {
+            const pids = async (options: Parameters<OSClient['ps']>[0]) => {
+                const found: string[] = [];
+
+                for await (const { pid } of client.ps(options)) {
+                    found.push(pid);
+                }
+
+                return found;
+            };
+
+            expect(await pids({ ppid: '2' })).toEqual(['3', '4']);
+            expect(await pids({ state: 'running' })).toEqual(['2', '3']);
+            expect(await pids({ ppid: '2', state: ['stopped', 'zombie'] })).toEqual(['4']);
+        });
+
+        test('processTree nests descendants', async () => {
+            const tree = await client.processTree('2');
+
+            expect(tree.pid).toBe('2');
+            expect(tree.children.map(child => child.pid)).toEqual(['3', '4']);
+            expect(tree.children[0].children.map(child => child.pid)).toEqual(['5']);
+            expect(tree.children[1].children).toEqual([]);
+        });
+
+        test('processTree fails with ESRCH for unknown pids', async () => {
+            await expect(client.processTree('42')).rejects.toMatchObject({ code: 'ESRCH' });
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { RedirectChain } from '../src/redirect.js';
+import { SyscallError } from '../src/error.js';
+
+describe('RedirectChain', () => {
+    test('starts at the origin', () => {
+        const chain = new RedirectChain({ call: 'file:stat', args: ['/a'] }, 8);
+
+        expect(chain.current).toEqual({ call: 'file:stat', args: ['/a'] });
+    });
+
+    test('path redirect replaces the first argument', () => {
+        const chain = new RedirectChain({ call: 'file:open', args: ['/link', { read: true }] }, 8);
+
+        expect(chain.follow({ path: '/target' })).toEqual({
+            call: 'file:open',
+            args: ['/target', { read: true }],
+            gateway: undefined,
+        });
+    });
+
+    test('call, args and gateway redirect', () => {
+        const chain = new RedirectChain({ call: 'file:stat', args: ['/a'] }, 8);
+
+        expect(chain.follow({ call: 'ems:select', args: ['User'], gateway: 'tcp://b:1' })).toEqual({
+            call: 'ems:select',
+            args: ['User'],
+            gateway: 'tcp://b:1',
+        });
+    });
+
+    test('gateway carries over to later hops', () => {
+        const chain = new RedirectChain({ call: 'file:stat', args: ['/a'] }, 8);
+
+        chain.follow({ gateway: 'tcp://b:1' });
+
+        expect(chain.follow({ path: '/b' }).gateway).toBe('tcp://b:1');
+    });
+
+    test('detects loops', () => {
+        const chain = new RedirectChain({ call: 'file:stat', args: ['/a'] }, 8);
+
+        chain.follow({ path: '/b' });
+
+        expect(() => chain.follow({ path: '/a' })).toThrow('Redirect loop at file:stat /a');
+    });
+
+    test('other arguments do not tell targets apart', () => {
+        const chain = new RedirectChain({ call: 'file:open', args: ['/a', { read: true }] }, 8);
+
+        expect(() => chain.follow({ args: ['/a', { write: true }] })).toThrow('Redirect loop at file:open /a');
+    });
+
+    test('empty redirect is a loop', () => {
+        const chain = new RedirectChain({ call: 'file:stat', args: ['/a'] }, 8);
+
+        expect(() => chain.follow()).toThrow(SyscallError);
+    });
+
+    test('enforces the hop limit', () => {
+        const chain = new RedirectChain({ call: 'file:stat', args: ['/0'] }, 2);
+
+        chain.follow({ path: '/1' });
+        chain.follow({ path: '/2' });
+
+        try {
+            chain.follow({ path: '/3' });
+            throw new Error('expected ELOOP');
+        }
+        catch (err) {
+            expect((err as SyscallError).code).toBe('ELOOP');
+            expect((err as SyscallError).message).toBe('Too many redirects (limit 2)');
+        }
+    });
+
+    test('path redirect needs a path argument', () => {
+        const chain = new RedirectChain({ call: 'file:read', args: [3] }, 8);
+
+        expect(() => chain.follow({ path: '/x' })).toThrow('takes no path');
+    });
+});
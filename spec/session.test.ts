@@ -0,0 +1,172 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { SyscallError } from '../src/error.js';
+import { serveTree } from './mem-fs.js';
+
+describe('sessions', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let tree: Map<string, Uint8Array | 'folder'>;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        tree = serveTree(gateway);
+        tree.set('/app', 'folder');
+        tree.set('/app/src', 'folder');
+        tree.set('/app/package.json', new TextEncoder().encode('{}'));
+        tree.set('/app/src/index.ts', new Uint8Array());
+
+        gateway
+            .on('proc:getcwd', () => '/')
+            .on('proc:getenv', () => 'gateway')
+            .on('proc:spawn', () => 7);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    describe('paths', () => {
+        test('resolves relative paths against the session cwd', async () => {
+            const app = client.session({ cwd: '/app' });
+
+            expect(await app.readText('package.json')).toBe('{}');
+            expect(await app.exists('src/index.ts')).toBe(true);
+            expect(await app.exists('../app/package.json')).toBe(true);
+            expect(gateway.received('file:stat').map(r => r.args[0])).toEqual([
+                '/app/src/index.ts',
+                '/app/package.json',
+            ]);
+        });
+
+        test('leaves absolute paths alone', async () => {
+            const app = client.session({ cwd: '/app' });
+
+            await app.mkdir('/tmp');
+
+            expect(tree.get('/tmp')).toBe('folder');
+        });
+
+        test('tree operations report resolved paths', async () => {
+            const app = client.session({ cwd: '/app' });
+            const walked: string[] = [];
+
+            for await (const { path } of app.walk('src')) {
+                walked.push(path);
+            }
+
+            expect(walked).toEqual(['/app/src/index.ts']);
+            expect(await app.glob('src/*.ts')).toEqual(['/app/src/index.ts']);
+        });
+
+        test('the client itself is unaffected', async () => {
+            client.session({ cwd: '/app' });
+
+            await client.exists('relative');
+
+            expect(gateway.received('file:stat')[0].args).toEqual(['relative']);
+        });
+
+        test('a relative cwd is resolved against the parent session', async () => {
+            const src = client.session({ cwd: '/app' }).session({ cwd: 'src' });
+
+            expect(await src.getcwd()).toBe('/app/src');
+            expect(() => client.session({ cwd: 'app' })).toThrow(SyscallError);
+        });
+    });
+
+    describe('cwd and env', () => {
+        test('chdir changes only the session', async () => {
+            const first = client.session({ cwd: '/' });
+            const second = client.session({ cwd: '/' });
+
+            await first.chdir('app');
+            await second.chdir('app/src');
+
+            expect(await first.getcwd()).toBe('/app');
+            expect(await second.getcwd()).toBe('/app/src');
+            expect(await client.getcwd()).toBe('/');
+            expect(gateway.received('proc:chdir')).toEqual([]);
+        });
+
+        test('chdir fails for missing paths and files', async () => {
+            const app = client.session({ cwd: '/app' });
+
+            await expect(app.chdir('missing')).rejects.toMatchObject({ code: 'ENOENT' });
+            await expect(app.chdir('package.json')).rejects.toMatchObject({ code: 'ENOTDIR' });
+            expect(await app.getcwd()).toBe('/app');
+        });
+
+        test('chdir without a cwd starts from the gateway cwd', async () => {
+            const session = client.session();
+
+            await session.chdir('app');
+
+            expect(await session.getcwd()).toBe('/app');
+        });
+
+        test('setenv and getenv stay in the session', async () => {
+            const session = client.session({ env: { MODE: 'test' } });
+
+            await session.setenv('DEBUG', '1');
+
+            expect(await session.getenv('MODE')).toBe('test');
+            expect(await session.getenv('DEBUG')).toBe('1');
+            expect(await client.getenv('DEBUG')).toBe('gateway');
+            expect(gateway.received('proc:setenv')).toEqual([]);
+        });
+
+        test('nested sessions inherit env without sharing it', async () => {
+            const outer = client.session({ env: { A: '1' } });
+            const inner = outer.session({ env: { B: '2' } });
+
+            await inner.setenv('C', '3');
+
+            expect(await inner.getenv('A')).toBe('1');
+            expect(await outer.getenv('B')).toBe('gateway');
+            expect(await outer.getenv('C')).toBe('gateway');
+        });
+    });
+
+    describe('processes', () => {
+        test('spawn runs in the session cwd with its env', async () => {
+            const app = client.session({ cwd: '/app', env: { NODE_ENV: 'test', CI: '1' } });
+
+            await app.spawn('/bin/npm', { args: ['test'], env: { CI: '0' } });
+            await app.spawn('/bin/ls', { cwd: 'src' });
+
+            expect(gateway.received('proc:spawn').map(r => r.args)).toEqual([
+                ['/bin/npm', { args: ['test'], cwd: '/app', env: { NODE_ENV: 'test', CI: '0' } }],
+                ['/bin/ls', { cwd: '/app/src', env: { NODE_ENV: 'test', CI: '1' } }],
+            ]);
+        });
+
+        test('spawn from the client is unchanged', async () => {
+            client.session({ cwd: '/app', env: { A: '1' } });
+
+            await client.spawn('/bin/ls');
+
+            expect(gateway.received('proc:spawn')[0].args).toEqual(['/bin/ls', undefined]);
+        });
+    });
+
+    describe('sharing', () => {
+        test('closing the client releases handles opened by sessions', async () => {
+            const handle = await client.session({ cwd: '/app' }).openHandle('package.json');
+
+            expect(handle.path).toBe('/app/package.json');
+
+            client.close();
+            await Bun.sleep(20);
+
+            expect(gateway.received('file:close').map(r => r.args)).toEqual([[handle.fd]]);
+        });
+    });
+});
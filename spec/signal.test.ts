@@ -0,0 +1,208 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { ConnectionError } from '../src/error.js';
+import { Signal } from '../src/types.js';
+
+describe('signals', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    /** Deliver a signal to the client and let handlers run */
+    async function deliver(signal: string): Promise<void> {
+        gateway.broadcast({ id: 'event', op: 'event', data: { type: 'signal', signal } });
+        await Bun.sleep(10);
+    }
+
+    describe('Signal', () => {
+        test('values are the signal names', () => {
+            expect(Signal.SIGTERM).toBe('SIGTERM');
+            expect(Signal.SIGKILL).toBe('SIGKILL');
+            expect(Object.entries(Signal).every(([key, value]) => key === value)).toBe(true);
+        });
+    });
+
+    describe('kill', () => {
+        test('sends the signal with proc:kill', async () => {
+            gateway.on('proc:kill', () => null);
+
+            await client.kill('42', Signal.SIGINT);
+            await client.kill('42');
+
+            expect(gateway.received('proc:kill').map(r => r.args)).toEqual([
+                ['42', 'SIGINT'],
+                ['42', 'SIGTERM'],
+            ]);
+        });
+    });
+
+    describe('onSignal', () => {
+        test('calls handlers for their signal only', async () => {
+            const terms: Signal[] = [];
+            const hups: Signal[] = [];
+
+            client.onSignal(Signal.SIGTERM, signal => { terms.push(signal); });
+            client.onSignal(Signal.SIGHUP, signal => { hups.push(signal); });
+
+            await deliver('SIGTERM');
+            await deliver('SIGUSR1');
+
+            expect(terms).toEqual(['SIGTERM']);
+            expect(hups).toEqual([]);
+        });
+
+        test('ignores other events', async () => {
+            let calls = 0;
+
+            client.onSignal(Signal.SIGTERM, () => { calls++; });
+
+            gateway.broadcast({ id: 'event', op: 'event', data: { type: 'hello', signal: 'SIGTERM' } });
+            await Bun.sleep(10);
+
+            expect(calls).toBe(0);
+        });
+
+        test('calls every handler for a signal', async () => {
+            let calls = 0;
+            const handler = () => { calls++; };
+
+            client.onSignal(Signal.SIGINT, handler);
+            client.onSignal(Signal.SIGINT, handler);
+            client.onSignal(Signal.SIGINT, () => { calls += 10; });
+
+            await deliver('SIGINT');
+
+            expect(calls).toBe(12);
+        });
+
+        test('the returned function removes the handler', async () => {
+            let calls = 0;
+            const handler = () => { calls++; };
+
+            const off = client.onSignal(Signal.SIGINT, handler);
+
+            client.onSignal(Signal.SIGINT, handler);
+            off();
+            off();
+
+            await deliver('SIGINT');
+
+            expect(calls).toBe(1);
+        });
+
+        test('listens again after every handler was removed', async () => {
+            let calls = 0;
+
+            client.onSignal(Signal.SIGTERM, () => { calls++; })();
+            await deliver('SIGTERM');
+
+            client.onSignal(Signal.SIGTERM, () => { calls++; });
+            await deliver('SIGTERM');
+
+            expect(calls).toBe(1);
+        });
+
+        test('a handler may remove itself while called', async () => {
+            const calls: string[] = [];
+
+            const off = client.onSignal(Signal.SIGUSR1, () => {
+                calls.push('once');
+                off();
+            });
+
+            client.onSignal(Signal.SIGUSR1, () => { calls.push('always'); });
+
+            await deliver('SIGUSR1');
+            await deliver('SIGUSR1');
+
+            expect(calls).toEqual(['once', 'always', 'always']);
+        });
+
+        test('handler errors go to onError without stopping delivery', async () => {
+            const errors: unknown[] = [];
+            const calls: string[] = [];
+            const onError = (err: unknown, signal: Signal) => errors.push([(err as Error).message, signal]);
+
+            client.onSignal(Signal.SIGHUP, () => {
+                throw new Error('sync');
+            }, { onError });
+            client.onSignal(Signal.SIGHUP, async () => {
+                throw new Error('async');
+            }, { onError });
+            client.onSignal(Signal.SIGHUP, () => {
+                throw new Error('ignored');
+            });
+            client.onSignal(Signal.SIGHUP, () => { calls.push('ok'); });
+
+            await deliver('SIGHUP');
+
+            expect(errors).toEqual([['sync', 'SIGHUP'], ['async', 'SIGHUP']]);
+            expect(calls).toEqual(['ok']);
+        });
+
+        test('keeps delivering after a reconnect', async () => {
+            const other = new OSClient();
+            const received: Signal[] = [];
+
+            await other.connect({ url: gateway.url, reconnect: { initialDelay: 10, jitter: 0 } });
+
+            try {
+                other.onSignal(Signal.SIGUSR2, signal => { received.push(signal); });
+
+                gateway.disconnect();
+
+                while (other.getState() !== 'reconnecting') {
+                    await Bun.sleep(5);
+                }
+
+                while (other.getState() !== 'connected') {
+                    await Bun.sleep(5);
+                }
+
+                await deliver('SIGUSR2');
+
+                expect(received).toEqual(['SIGUSR2']);
+            }
+            finally {
+                other.close();
+            }
+        });
+
+        test('ending the subscription removes handlers and tells onError', async () => {
+            const errors: unknown[] = [];
+            let calls = 0;
+
+            client.onSignal(Signal.SIGTERM, () => { calls++; }, { onError: err => errors.push(err) });
+            client.close();
+            await Bun.sleep(10);
+
+            expect(errors).toHaveLength(1);
+            expect(errors[0]).toBeInstanceOf(ConnectionError);
+
+            await client.connect(gateway.url);
+            client.onSignal(Signal.SIGINT, () => {});
+            await deliver('SIGTERM');
+
+            expect(calls).toBe(0);
+        });
+
+        test('throws ENOTCONN when not connected', () => {
+            const other = new OSClient();
+
+            expect(() => other.onSignal(Signal.SIGTERM, () => {})).toThrow(ConnectionError);
+        });
+    });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import type { SyncChange } from '../src/types.js';
+import { serveTree } from './mem-fs.js';
+
+const bytes = (value: string) => new TextEncoder().encode(value);
+const text = (data: Uint8Array | 'folder' | undefined) => new TextDecoder().decode(data as Uint8Array);
+const summary = (changes: SyncChange[]) => changes.map(c => `${c.action} ${c.path}`).sort();
+
+describe('sync', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let tree: Map<string, Uint8Array | 'folder'>;
+    let local: string;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        tree = serveTree(gateway);
+        local = mkdtempSync(join(tmpdir(), 'monk-sync-'));
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+        rmSync(local, { recursive: true, force: true });
+    });
+
+    describe('syncTo', () => {
+        beforeEach(async () => {
+            await fs.mkdir(join(local, 'css'));
+            await fs.writeFile(join(local, 'index.html'), '<h1>hi</h1>');
+            await fs.writeFile(join(local, 'css', 'site.css'), 'body {}');
+        });
+
+        test('creates the remote tree with local timestamps', async () => {
+            const result = await client.syncTo(local, '/www');
+
+            expect(summary(result.changes)).toEqual(['create css', 'create css/site.css', 'create index.html']);
+            expect(text(tree.get('/www/css/site.css'))).toBe('body {}');
+
+            const { mtimeMs } = await fs.stat(join(local, 'index.html'));
+
+            expect(Date.parse((await client.stat('/www/index.html')).updated_at)).toBe(Math.floor(mtimeMs));
+        });
+
+        test('a second run changes nothing', async () => {
+            await client.syncTo(local, '/www');
+
+            const result = await client.syncTo(local, '/www');
+
+            expect(result.changes).toEqual([]);
+            expect(result.unchanged).toBe(3);
+        });
+
+        test('updates files whose size or mtime changed', async () => {
+            await client.syncTo(local, '/www');
+            await fs.writeFile(join(local, 'index.html'), '<h1>hello</h1>');
+
+            const result = await client.syncTo(local, '/www');
+
+            expect(summary(result.changes)).toEqual(['update index.html']);
+            expect(text(tree.get('/www/index.html'))).toBe('<h1>hello</h1>');
+        });
+
+        test('dry run reports without writing', async () => {
+            const seen: string[] = [];
+            const result = await client.syncTo(local, '/www', { dryRun: true, onChange: c => seen.push(c.path) });
+
+            expect(result.changes).toHaveLength(3);
+            expect(seen.sort()).toEqual(['css', 'css/site.css', 'index.html']);
+            expect(tree.has('/www')).toBe(false);
+            expect(gateway.received('file:mkdir')).toEqual([]);
+        });
+
+        test('delete removes extraneous remote entries', async () => {
+            tree.set('/www', 'folder');
+            tree.set('/www/old', 'folder');
+            tree.set('/www/old/stale.txt', bytes('x'));
+            tree.set('/www/stale.txt', bytes('x'));
+
+            await client.syncTo(local, '/www');
+
+            expect(tree.has('/www/stale.txt')).toBe(true);
+
+            const result = await client.syncTo(local, '/www', { delete: true });
+
+            expect(summary(result.changes)).toEqual(['delete old', 'delete stale.txt']);
+            expect(tree.has('/www/old/stale.txt')).toBe(false);
+            expect(tree.has('/www/stale.txt')).toBe(false);
+        });
+
+        test('checksum compares contents instead of timestamps', async () => {
+            await client.syncTo(local, '/www');
+            // Same size, same content, different mtime
+            await client.utimes('/www/index.html', { updated_at: new Date('2000-01-01') });
+
+            expect(summary((await client.syncTo(local, '/www', { checksum: true, dryRun: true })).changes)).toEqual([]);
+            expect(summary((await client.syncTo(local, '/www', { dryRun: true })).changes)).toEqual(['update index.html']);
+
+            // Same size and mtime, different content
+            tree.set('/www/css/site.css', bytes('BODY {}'));
+
+            expect(summary((await client.syncTo(local, '/www', { checksum: true, dryRun: true })).changes))
+                .toEqual(['update css/site.css']);
+        });
+
+        test('compares contents on gateways without file:utimes', async () => {
+            const legacy = new MockGateway({ syscalls: true });
+            const files = serveTree(legacy);
+            const other = new OSClient();
+
+            legacy.off('file:utimes');
+            await legacy.start();
+
+            try {
+                await other.connect(legacy.url);
+
+                const first = await other.syncTo(local, '/www', { checksum: true });
+
+                expect(summary(first.changes)).toEqual(['create css', 'create css/site.css', 'create index.html']);
+                expect(legacy.received('file:utimes')).toEqual([]);
+                expect((await other.syncTo(local, '/www')).changes).toEqual([]);
+
+                // Same size, different content
+                await fs.writeFile(join(local, 'index.html'), '<h1>yo</h1>');
+
+                expect(summary((await other.syncTo(local, '/www')).changes)).toEqual(['update index.html']);
+                expect(text(files.get('/www/index.html'))).toBe('<h1>yo</h1>');
+            }
+            finally {
+                other.close();
+                legacy.stop();
+            }
+        });
+
+        test('a missing local root fails without touching the remote tree', async () => {
+            tree.set('/www', 'folder');
+            tree.set('/www/a.txt', bytes('x'));
+
+            await expect(client.syncTo(join(local, 'typo'), '/www', { delete: true }))
+                .rejects.toMatchObject({ code: 'ENOENT' });
+            expect(tree.has('/www/a.txt')).toBe(true);
+        });
+
+        test('reports progress as files done of total', async () => {
+            const progress: unknown[] = [];
+
+            await client.syncTo(local, '/www', { onProgress: p => progress.push([p.done, p.total, p.unit]) });
+
+            expect(progress).toEqual([[1, 3, 'files'], [2, 3, 'files'], [3, 3, 'files']]);
+        });
+    });
+
+    describe('syncFrom', () => {
+        beforeEach(() => {
+            tree.set('/data', 'folder');
+            tree.set('/data/a.txt', bytes('alpha'));
+            tree.set('/data/nested', 'folder');
+            tree.set('/data/nested/b.txt', bytes('beta'));
+        });
+
+        test('creates the local tree with remote timestamps', async () => {
+            const target = join(local, 'mirror');
+            const result = await client.syncFrom('/data', target);
+
+            expect(summary(result.changes)).toEqual(['create a.txt', 'create nested', 'create nested/b.txt']);
+            expect(await fs.readFile(join(target, 'nested', 'b.txt'), 'utf8')).toBe('beta');
+            expect((await fs.stat(join(target, 'a.txt'))).mtime.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+            expect((await client.syncFrom('/data', target)).changes).toEqual([]);
+        });
+
+        test('a missing remote root fails without touching the local tree', async () => {
+            await fs.writeFile(join(local, 'keep.txt'), 'x');
+
+            await expect(client.syncFrom('/typo', local, { delete: true })).rejects.toMatchObject({ code: 'ENOENT' });
+            expect(await fs.readdir(local)).toEqual(['keep.txt']);
+        });
+
+        test('replaces entries whose type changed and deletes extras', async () => {
+            await fs.mkdir(join(local, 'a.txt'));
+            await fs.writeFile(join(local, 'a.txt', 'inner'), 'x');
+            await fs.writeFile(join(local, 'extra.txt'), 'x');
+
+            const result = await client.syncFrom('/data', local, { delete: true });
+
+            expect(summary(result.changes)).toEqual(['create nested', 'create nested/b.txt', 'delete extra.txt', 'update a.txt']);
+            expect(await fs.readFile(join(local, 'a.txt'), 'utf8')).toBe('alpha');
+            expect(await fs.readdir(local)).toEqual(expect.arrayContaining(['a.txt', 'nested']));
+            expect(await fs.readdir(local)).not.toContain('extra.txt');
+        });
+    });
+});
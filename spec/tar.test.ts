@@ -0,0 +1,195 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { serveTree } from './mem-fs.js';
+
+const hasTar = Bun.which('tar') !== null;
+const bytes = (value: string) => new TextEncoder().encode(value);
+const text = (data: Uint8Array | 'folder' | undefined) => new TextDecoder().decode(data as Uint8Array);
+const LONG_NAME = `${'deep-'.repeat(25)}name.txt`;
+
+/**
+ * Run tar in a directory, returning stdout.
+ */
+function tar(cwd: string, ...args: string[]): string {
+    const result = Bun.spawnSync(['tar', ...args], { cwd });
+
+    if (result.exitCode !== 0) {
+        throw new Error(result.stderr.toString());
+    }
+
+    return result.stdout.toString();
+}
+
+describe('tar', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let tree: Map<string, Uint8Array | 'folder'>;
+    let local: string;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        tree = serveTree(gateway);
+        tree.set('/app', 'folder');
+        tree.set('/app/readme.md', bytes('# App\n'));
+        tree.set('/app/data', 'folder');
+        tree.set('/app/data/big.bin', Uint8Array.from({ length: 3000 }, (_, i) => i % 256));
+        tree.set('/app/data/empty.txt', new Uint8Array());
+        tree.set(`/app/${LONG_NAME}`, bytes('long'));
+        local = mkdtempSync(join(tmpdir(), 'monk-tar-'));
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+        rmSync(local, { recursive: true, force: true });
+    });
+
+    describe('exportTar', () => {
+        test('produces block-aligned archives ending in two zero blocks', async () => {
+            const archive = new Uint8Array(await new Response(client.exportTar('/app')).arrayBuffer());
+
+            expect(archive.length % 512).toBe(0);
+            expect(archive.subarray(-1024).every(byte => byte === 0)).toBe(true);
+        });
+
+        test.skipIf(!hasTar)('is readable by GNU tar', async () => {
+            await Bun.write(join(local, 'app.tar'), new Response(client.exportTar('/app')));
+
+            const listing = tar(local, '-tf', 'app.tar').trim().split('\n');
+
+            expect(listing).toEqual(['readme.md', 'data/', 'data/big.bin', 'data/empty.txt', LONG_NAME]);
+
+            mkdirSync(join(local, 'out'));
+            tar(join(local, 'out'), '-xf', '../app.tar');
+
+            expect(readFileSync(join(local, 'out', 'data', 'big.bin'))).toEqual(Buffer.from(tree.get('/app/data/big.bin') as Uint8Array));
+            expect(readFileSync(join(local, 'out', LONG_NAME), 'utf8')).toBe('long');
+        });
+
+        test('stops reading when cancelled', async () => {
+            const reader = client.exportTar('/app').getReader();
+
+            await reader.read();
+            await reader.cancel();
+
+            expect(gateway.received('file:open')).toEqual([]);
+        });
+    });
+
+    describe('importTar', () => {
+        test('round-trips contents and Stat timestamps', async () => {
+            await client.utimes('/app/readme.md', { created_at: '2021-03-04T05:06:07.000Z', updated_at: '2022-03-04T05:06:07.890Z' });
+            await client.importTar(client.exportTar('/app'), '/restore');
+
+            expect(text(tree.get('/restore/readme.md'))).toBe('# App\n');
+            expect(tree.get('/restore/data')).toBe('folder');
+            expect(tree.get('/restore/data/big.bin')).toEqual(tree.get('/app/data/big.bin')!);
+            expect(text(tree.get('/restore/data/empty.txt'))).toBe('');
+            expect(text(tree.get(`/restore/${LONG_NAME}`))).toBe('long');
+
+            const stat = await client.stat('/restore/readme.md');
+
+            expect(stat.created_at).toBe('2021-03-04T05:06:07.000Z');
+            expect(stat.updated_at).toBe('2022-03-04T05:06:07.890Z');
+        });
+
+        test('stamps folders after their contents', async () => {
+            await client.importTar(client.exportTar('/app'), '/restore');
+
+            const stamped = gateway.received('file:utimes').map(r => r.args[0]);
+
+            expect(stamped.indexOf('/restore/data')).toBeGreaterThan(stamped.indexOf('/restore/data/big.bin'));
+        });
+
+        test.skipIf(!hasTar)('reads archives made by GNU tar', async () => {
+            mkdirSync(join(local, 'src', 'nested'), { recursive: true });
+            writeFileSync(join(local, 'src', 'nested', 'a.txt'), 'alpha');
+            writeFileSync(join(local, 'src', LONG_NAME), 'long');
+            tar(join(local, 'src'), '--format=gnu', '-cf', '../gnu.tar', '.');
+            tar(join(local, 'src'), '--format=pax', '-cf', '../pax.tar', '.');
+
+            await client.importTar(Bun.file(join(local, 'gnu.tar')).stream(), '/gnu');
+            await client.importTar(Bun.file(join(local, 'pax.tar')).stream(), '/pax');
+
+            for (const root of ['/gnu', '/pax']) {
+                expect(text(tree.get(`${root}/nested/a.txt`))).toBe('alpha');
+                expect(text(tree.get(`${root}/${LONG_NAME}`))).toBe('long');
+            }
+        });
+
+        test.skipIf(!hasTar)('rejects entries escaping the target', async () => {
+            writeFileSync(join(local, 'evil.txt'), 'x');
+            tar(local, '--format=ustar', '-P', '--transform=s,^,../,', '-cf', 'evil.tar', 'evil.txt');
+
+            await expect(client.importTar(Bun.file(join(local, 'evil.tar')).stream(), '/safe'))
+                .rejects.toMatchObject({ code: 'EINVAL' });
+            expect([...tree.keys()].some(path => path.endsWith('evil.txt'))).toBe(false);
+        });
+
+        test('rejects corrupt and truncated archives', async () => {
+            const archive = new Uint8Array(await new Response(client.exportTar('/app')).arrayBuffer());
+            const corrupt = archive.slice();
+
+            corrupt[0] ^= 0xff;
+
+            await expect(client.importTar(new Response(corrupt).body!, '/x')).rejects.toThrow('checksum');
+            await expect(client.importTar(new Response(archive.subarray(0, 1500)).body!, '/y')).rejects.toThrow('Unexpected end');
+        });
+
+        test('rejects a malformed PAX mtime', async () => {
+            const archive = Buffer.from(await new Response(client.exportTar('/app')).arrayBuffer()).toString('latin1');
+
+            // Same lengths, so record and block sizes still hold
+            const malformed = archive
+                .replace(/monk\.updated_at=/g, 'monk.updated_xx=')
+                .replace(/mtime=([0-9.]+)/g, (_, value: string) => `mtime=${'x'.repeat(value.length)}`);
+
+            await expect(client.importTar(new Response(Buffer.from(malformed, 'latin1')).body!, '/z'))
+                .rejects.toMatchObject({ code: 'EINVAL', message: 'Invalid mtime in tar archive: readme.md' });
+            expect(gateway.received('file:utimes')).toEqual([]);
+        });
+
+        test('rejects a malformed PAX size', async () => {
+            const archive = Buffer.from(await new Response(client.exportTar('/app')).arrayBuffer()).toString('latin1');
+
+            // "mtime=" becomes "size=" with a value one longer, so record lengths still hold
+            const malformed = archive
+                .replace(/mtime=([0-9.]+)/g, (_, value: string) => `size=${'x'.repeat(value.length + 1)}`);
+
+            await expect(client.importTar(new Response(Buffer.from(malformed, 'latin1')).body!, '/z'))
+                .rejects.toMatchObject({ code: 'EINVAL', message: 'Invalid size in tar archive: readme.md' });
+            expect(tree.has('/z/readme.md')).toBe(false);
+        });
+
+        test('rejects a base-256 size field', async () => {
+            const archive = new Uint8Array(await new Response(client.exportTar('/app')).arrayBuffer());
+            const latin1 = Buffer.from(archive).toString('latin1');
+            let offset = 0;
+
+            while (!latin1.startsWith('readme.md\0', offset)) {
+                offset += 512;
+            }
+
+            const header = archive.subarray(offset, offset + 512);
+
+            // GNU base-256: high bit set, then a big-endian number
+            header.fill(0, 124, 136);
+            header[124] = 0x80;
+            header[135] = 6;
+            header.fill(0x20, 148, 156);
+            header.set(bytes(`${header.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, '0')}\0 `), 148);
+
+            await expect(client.importTar(new Response(archive).body!, '/z'))
+                .rejects.toMatchObject({ code: 'EINVAL', message: 'Invalid size in tar archive: readme.md' });
+        });
+    });
+});
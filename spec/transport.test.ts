@@ -1,6 +1,8 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
 import { Transport } from '../src/transport.js';
-import { ConnectionError, TimeoutError } from '../src/error.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { ConnectionError, TimeoutError, AbortError } from '../src/error.js';
+import type { EventResponse, ProgressData, Response } from '../src/types.js';
 
 describe('Transport', () => {
     describe('initial state', () => {
@@ -90,6 +92,370 @@ describe('Transport', () => {
     });
 });
 
+describe('Transport reconnect', () => {
+    let gateway: MockGateway;
+    let transport: Transport;
+
+    beforeEach(async () => {
+        // Never answers unless a test registers handlers
+        gateway = new MockGateway().on('file:stat', () => new Promise(() => {}));
+        await gateway.start();
+    });
+
+    afterEach(() => {
+        transport.close();
+        gateway.stop();
+    });
+
+    test('rejects pending requests when reconnect is disabled', async () => {
+        transport = new Transport();
+        await transport.connect({ socketPath: gateway.socketPath });
+
+        const pending = transport.send({ id: '1', call: 'file:stat', args: ['/'] });
+
+        gateway.stop();
+
+        await expect(pending).rejects.toThrow(ConnectionError);
+        expect(transport.getState()).toBe('disconnected');
+    });
+
+    test('replays idempotent requests after reconnecting', async () => {
+        gateway.on('file:write', () => new Promise(() => {}));
+
+        transport = new Transport();
+        await transport.connect({
+            socketPath: gateway.socketPath,
+            reconnect: { initialDelay: 10, jitter: 0 },
+        });
+
+        const stat = transport.send({ id: '1', call: 'file:stat', args: ['/'] });
+        const write = transport.send({ id: '2', call: 'file:write', args: [3, {}] });
+
+        gateway.stop();
+
+        await expect(write).rejects.toThrow('Connection closed');
+        expect(transport.getState()).toBe('reconnecting');
+
+        gateway.on('file:stat', () => ({ call: 'file:stat' }));
+        await gateway.start();
+
+        const responses = await stat;
+
+        expect(responses).toEqual([{ id: '1', op: 'ok', data: { call: 'file:stat' } }]);
+        expect(transport.getState()).toBe('connected');
+    });
+
+    test('queues requests sent while reconnecting', async () => {
+        transport = new Transport();
+        await transport.connect({
+            socketPath: gateway.socketPath,
+            reconnect: { initialDelay: 10, jitter: 0 },
+        });
+
+        gateway.stop();
+
+        while (transport.getState() !== 'reconnecting') {
+            await Bun.sleep(1);
+        }
+
+        const queued = transport.send({ id: '1', call: 'file:mkdir', args: ['/tmp/x'] });
+
+        gateway.on('file:mkdir', () => undefined);
+        await gateway.start();
+
+        expect(await queued).toEqual([{ id: '1', op: 'ok' }]);
+    });
+
+    test('gives up after maxAttempts', async () => {
+        transport = new Transport();
+        await transport.connect({
+            socketPath: gateway.socketPath,
+            reconnect: { maxAttempts: 2, initialDelay: 5, jitter: 0 },
+        });
+
+        const pending = transport.send({ id: '1', call: 'file:stat', args: ['/'] });
+
+        gateway.stop();
+
+        // WHY: expect().rejects misreports the failed reconnect attempts
+        // as test errors, so inspect the rejection directly
+        const error = await pending.catch((err: Error) => err);
+
+        expect(error).toBeInstanceOf(ConnectionError);
+        expect((error as Error).message).toBe('Reconnect failed after 2 attempts');
+        expect(transport.getState()).toBe('disconnected');
+    });
+});
+
+describe('Transport abort', () => {
+    let gateway: MockGateway;
+    let transport: Transport;
+
+    beforeEach(async () => {
+        gateway = new MockGateway()
+            .on('file:stat', () => new Promise(() => {}))
+            .on('ems:select', (_args, reply) => {
+                for (let i = 0; i < 3; i++) {
+                    reply.item({ i });
+                }
+
+                // Keep the stream open until cancelled
+                return new Promise(() => {});
+            });
+
+        await gateway.start();
+
+        transport = new Transport();
+        await transport.connect({ socketPath: gateway.socketPath });
+    });
+
+    afterEach(() => {
+        transport.close();
+        gateway.stop();
+    });
+
+    test('send rejects immediately with an aborted signal', async () => {
+        const controller = new AbortController();
+
+        controller.abort();
+
+        await expect(
+            transport.send({ id: '1', call: 'file:stat', args: ['/'] }, { signal: controller.signal }),
+        ).rejects.toThrow(AbortError);
+        expect(gateway.received('file:stat')).toEqual([]);
+    });
+
+    test('send accepts a bare timeout in ms', async () => {
+        const started = Date.now();
+
+        await expect(transport.send({ id: '1', call: 'file:stat', args: ['/'] }, 50)).rejects.toThrow(TimeoutError);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    test('send rejects on abort and cancels the request', async () => {
+        const controller = new AbortController();
+        const pending = transport.send({ id: '1', call: 'file:stat', args: ['/'] }, { signal: controller.signal });
+
+        await Bun.sleep(5);
+        controller.abort();
+
+        await expect(pending).rejects.toThrow(AbortError);
+        await Bun.sleep(5);
+
+        expect(gateway.requests.map(r => r.call)).toEqual(['sys:hello', 'file:stat', 'sys:cancel']);
+        expect(gateway.received('sys:cancel')[0].args).toEqual(['1']);
+    });
+
+    test('stream throws on abort and cancels the request', async () => {
+        const controller = new AbortController();
+        const items: Response[] = [];
+
+        const iterate = async () => {
+            for await (const response of transport.stream(
+                { id: '1', call: 'ems:select', args: ['User'] },
+                { signal: controller.signal },
+            )) {
+                items.push(response);
+
+                if (items.length === 3) {
+                    controller.abort();
+                }
+            }
+        };
+
+        await expect(iterate()).rejects.toThrow(AbortError);
+        await Bun.sleep(5);
+
+        expect(items.length).toBe(3);
+        expect(gateway.requests.map(r => r.call)).toEqual(['sys:hello', 'ems:select', 'sys:cancel']);
+    });
+
+    test('breaking out of a stream cancels the request', async () => {
+        for await (const response of transport.stream({ id: '1', call: 'ems:select', args: ['User'] })) {
+            expect(response.op).toBe('item');
+            break;
+        }
+
+        await Bun.sleep(5);
+
+        expect(gateway.requests.map(r => r.call)).toEqual(['sys:hello', 'ems:select', 'sys:cancel']);
+    });
+});
+
+describe('Transport progress and events', () => {
+    let gateway: MockGateway;
+    let transport: Transport;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        transport = new Transport();
+        await transport.connect({ socketPath: gateway.socketPath });
+    });
+
+    afterEach(() => {
+        transport.close();
+        gateway.stop();
+    });
+
+    test('send reports progress as it arrives', async () => {
+        const { promise: release, resolve } = Promise.withResolvers<void>();
+        const seen: ProgressData[] = [];
+
+        gateway.on('file:read', async (_args, reply) => {
+            reply.progress({ done: 1, total: 2 });
+            await release;
+
+            return { read: 2 };
+        });
+
+        const pending = transport.send(
+            { id: '1', call: 'file:read', args: [] },
+            { onProgress: progress => seen.push(progress) },
+        );
+
+        while (seen.length === 0) {
+            await Bun.sleep(1);
+        }
+
+        expect(seen).toEqual([{ done: 1, total: 2 }]);
+        resolve();
+
+        const responses = await pending;
+
+        expect(responses.map(r => r.op)).toEqual(['progress', 'ok']);
+    });
+
+    test('events() yields unsolicited events only', async () => {
+        gateway.on('proc:wait', (_args, reply) => {
+            reply.event({ type: 'request-bound' });
+
+            return 0;
+        });
+
+        const controller = new AbortController();
+        const events: EventResponse[] = [];
+
+        const listen = (async () => {
+            for await (const event of transport.events({ signal: controller.signal })) {
+                events.push(event);
+            }
+        })();
+
+        await transport.send({ id: '1', call: 'proc:wait', args: [] });
+        gateway.broadcast({ id: 'event', op: 'event', data: { type: 'signal', signal: 'SIGTERM' } });
+
+        while (events.length === 0) {
+            await Bun.sleep(1);
+        }
+
+        controller.abort();
+
+        await expect(listen).rejects.toThrow(AbortError);
+        expect(events.map(event => event.data)).toEqual([{ type: 'signal', signal: 'SIGTERM' }]);
+    });
+
+    test('events() ends when the connection closes', async () => {
+        const listen = (async () => {
+            for await (const _event of transport.events()) {
+                // Nothing sent
+            }
+        })();
+
+        await Bun.sleep(5);
+        transport.close();
+
+        await expect(listen).rejects.toThrow('Connection closed');
+    });
+});
+
+describe('Transport multiplexing', () => {
+    let gateway: MockGateway;
+    let transport: Transport;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        transport = new Transport();
+    });
+
+    afterEach(() => {
+        transport.close();
+        gateway.stop();
+    });
+
+    test('interleaves dozens of overlapping streams and sends', async () => {
+        const STREAMS = 40;
+        const ITEMS = 10;
+
+        // Each stream emits its items with random delays, so streams
+        // interleave and finish out of order
+        gateway
+            .on('proc:getpid', (_args, reply) => reply.request.id)
+            .on('ems:select', async (_args, reply) => {
+                for (let n = 0; n < ITEMS; n++) {
+                    await Bun.sleep(Math.random() * 3);
+                    reply.item({ n });
+                }
+            });
+
+        await transport.connect({ socketPath: gateway.socketPath });
+
+        const consume = async () => {
+            const items: unknown[] = [];
+            const id = transport.generateId();
+
+            for await (const response of transport.stream({ id, call: 'ems:select', args: [id] })) {
+                if (response.op === 'item') {
+                    items.push(response.data.n);
+                }
+            }
+
+            return items;
+        };
+
+        const streams = Promise.all(Array.from({ length: STREAMS }, consume));
+        const sends = Promise.all(Array.from({ length: 10 }, () => {
+            const id = transport.generateId();
+
+            return transport.send({ id, call: 'proc:getpid', args: [] }).then(r => [id, r] as const);
+        }));
+
+        for (const items of await streams) {
+            expect(items).toEqual(Array.from({ length: ITEMS }, (_, i) => i));
+        }
+
+        for (const [id, responses] of await sends) {
+            expect(responses).toEqual([{ id, op: 'ok', data: id as unknown as Record<string, unknown> }]);
+        }
+    });
+
+    test('delivers items queued before the terminal response', async () => {
+        gateway.on('file:readdir', (_args, reply) => {
+            reply.item({ n: 1 });
+            reply.item({ n: 2 });
+        });
+
+        await transport.connect({ socketPath: gateway.socketPath });
+
+        const iterator = transport.stream({ id: '1', call: 'file:readdir', args: ['/'] })[Symbol.asyncIterator]();
+
+        // Let all three frames arrive before pulling anything
+        await iterator.next();
+        await Bun.sleep(5);
+
+        const rest: string[] = [];
+
+        for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+            rest.push(result.value.op);
+        }
+
+        expect(rest).toEqual(['item', 'done']);
+    });
+});
+
 // Integration tests - require a running gateway
 // Run with: GATEWAY_SOCKET=/tmp/monk.sock bun test spec/transport.test.ts
 describe.skipIf(!process.env.GATEWAY_SOCKET)('Transport (integration)', () => {
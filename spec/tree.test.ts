@@ -0,0 +1,209 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { posix } from 'node:path';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { expandBraces } from '../src/tree.js';
+import { serveTree } from './mem-fs.js';
+
+/**
+ * Add files (and their parent folders) to an in-memory tree.
+ */
+function seed(tree: Map<string, Uint8Array | 'folder'>, paths: string[]): void {
+    for (const path of paths) {
+        for (let dir = posix.dirname(path); dir !== '/'; dir = posix.dirname(dir)) {
+            tree.set(dir, 'folder');
+        }
+
+        if (path.endsWith('/')) {
+            tree.set(path.slice(0, -1), 'folder');
+        }
+        else {
+            tree.set(path, new TextEncoder().encode(path));
+        }
+    }
+}
+
+describe('tree operations', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let tree: Map<string, Uint8Array | 'folder'>;
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        tree = serveTree(gateway);
+        seed(tree, [
+            '/src/index.ts',
+            '/src/lib/a.ts',
+            '/src/lib/b.js',
+            '/src/lib/deep/c.ts',
+            '/src/.hidden.ts',
+            '/docs/readme.md',
+            '/empty/',
+        ]);
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    describe('walk', () => {
+        test('yields entries depth-first with stats', async () => {
+            const paths: string[] = [];
+
+            for await (const { path, entry, stat } of client.walk('/src')) {
+                paths.push(path);
+                expect(stat.name).toBe(entry.name);
+            }
+
+            expect(paths).toEqual([
+                '/src/index.ts',
+                '/src/lib',
+                '/src/lib/a.ts',
+                '/src/lib/b.js',
+                '/src/lib/deep',
+                '/src/lib/deep/c.ts',
+                '/src/.hidden.ts',
+            ]);
+        });
+
+        test('depth limits descent', async () => {
+            const paths: string[] = [];
+
+            for await (const { path } of client.walk('/', { depth: 1 })) {
+                paths.push(path);
+            }
+
+            expect(paths).toEqual(['/src', '/docs', '/empty']);
+        });
+
+        test('filter prunes folders', async () => {
+            const paths: string[] = [];
+
+            for await (const { path } of client.walk('/src', { filter: ({ entry }) => entry.name !== 'lib' })) {
+                paths.push(path);
+            }
+
+            expect(paths).toEqual(['/src/index.ts', '/src/.hidden.ts']);
+            expect(gateway.received('file:readdir').map(r => r.args[0])).toEqual(['/src']);
+        });
+
+        test('keeps at most `concurrency` syscalls in flight', async () => {
+            let inFlight = 0;
+            let maxInFlight = 0;
+
+            seed(tree, Array.from({ length: 20 }, (_, i) => `/wide/f${i}`));
+            gateway.on('file:stat', async ([path]: [string]) => {
+                maxInFlight = Math.max(maxInFlight, ++inFlight);
+                await Bun.sleep(2);
+                inFlight--;
+
+                return { id: path, name: posix.basename(path), model: 'file', size: 0 };
+            });
+
+            let count = 0;
+
+            for await (const _ of client.walk('/wide', { concurrency: 3 })) {
+                count++;
+            }
+
+            expect(count).toBe(20);
+            expect(maxInFlight).toBe(3);
+        });
+
+        test('fails when the root is missing', async () => {
+            await expect((async () => {
+                for await (const _ of client.walk('/missing')) {
+                    // unreachable
+                }
+            })()).rejects.toMatchObject({ code: 'ENOENT' });
+        });
+    });
+
+    describe('glob', () => {
+        test('* matches within one segment', async () => {
+            expect(await client.glob('/src/*.ts')).toEqual(['/src/index.ts', '/src/.hidden.ts']);
+        });
+
+        test('** matches any depth, including none', async () => {
+            expect(await client.glob('/src/**/*.ts')).toEqual([
+                '/src/index.ts',
+                '/src/lib/a.ts',
+                '/src/lib/deep/c.ts',
+                '/src/.hidden.ts',
+            ]);
+        });
+
+        test('? and braces', async () => {
+            expect(await client.glob('/src/lib/?.{js,md}')).toEqual(['/src/lib/b.js']);
+            expect(await client.glob('/{src,docs}/*.{ts,md}')).toEqual(['/src/index.ts', '/src/.hidden.ts', '/docs/readme.md']);
+        });
+
+        test('matches folders too', async () => {
+            expect(await client.glob('/*')).toEqual(['/src', '/docs', '/empty']);
+        });
+
+        test('lists only folders that can lead to a match', async () => {
+            await client.glob('/src/lib/*.ts');
+
+            expect(gateway.received('file:readdir').map(r => r.args[0])).toEqual(['/src/lib']);
+        });
+
+        test('relative patterns resolve against cwd', async () => {
+            expect(await client.glob('lib/*.ts', { cwd: '/src' })).toEqual(['/src/lib/a.ts']);
+        });
+
+        test('literal patterns check existence', async () => {
+            expect(await client.glob('/docs/{readme,missing}.md')).toEqual(['/docs/readme.md']);
+        });
+
+        test('missing base matches nothing', async () => {
+            expect(await client.glob('/nowhere/**/*.ts')).toEqual([]);
+        });
+    });
+
+    describe('expandBraces', () => {
+        test('expands nested alternatives', () => {
+            expect(expandBraces('/a/{b,c{d,e}}/f')).toEqual(['/a/b/f', '/a/cd/f', '/a/ce/f']);
+            expect(expandBraces('{x,y}{1,2}')).toEqual(['x1', 'x2', 'y1', 'y2']);
+        });
+
+        test('keeps braces without alternatives', () => {
+            expect(expandBraces('/a/{b}/{c,d}')).toEqual(['/a/{b}/c', '/a/{b}/d']);
+            expect(expandBraces('/a/{b,c')).toEqual(['/a/{b,c']);
+        });
+    });
+
+    describe('mkdirp', () => {
+        test('creates missing parents', async () => {
+            expect(await client.mkdirp('/docs/a/b')).toBe('/docs/a');
+            expect(tree.get('/docs/a/b')).toBe('folder');
+            expect(await client.mkdirp('/docs/a/b')).toBeUndefined();
+        });
+
+        test('fails on an existing file', async () => {
+            await expect(client.mkdirp('/docs/readme.md')).rejects.toMatchObject({ code: 'EEXIST' });
+        });
+    });
+
+    describe('rmrf', () => {
+        test('removes a tree', async () => {
+            await client.rmrf('/src');
+
+            expect([...tree.keys()].filter(path => path.startsWith('/src'))).toEqual([]);
+            expect(gateway.received('file:stat')).toHaveLength(1);
+        });
+
+        test('removes files and ignores missing paths', async () => {
+            await client.rmrf('/docs/readme.md');
+            await client.rmrf('/missing');
+
+            expect(tree.has('/docs/readme.md')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,243 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { posix } from 'node:path';
+import { OSClient } from '../src/client.js';
+import { MockGateway } from '../src/mock-gateway.js';
+import { AbortError, SyscallError } from '../src/error.js';
+import type { WatchEvent, WatchOptions } from '../src/types.js';
+import { serveTree } from './mem-fs.js';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('watch', () => {
+    let gateway: MockGateway;
+    let client: OSClient;
+    let tree: Map<string, Uint8Array | 'folder'>;
+
+    /**
+     * Watch until `change` has run and a few more scans have passed.
+     */
+    async function observe(path: string, options: WatchOptions, change: () => void): Promise<WatchEvent[]> {
+        const controller = new AbortController();
+        const events: WatchEvent[] = [];
+
+        const listen = (async () => {
+            try {
+                for await (const event of client.watch(path, { interval: 5, ...options, signal: controller.signal })) {
+                    events.push(event);
+                }
+            }
+            catch (err) {
+                if (!(err instanceof AbortError)) {
+                    throw err;
+                }
+            }
+        })();
+
+        await Bun.sleep(30);
+        change();
+        await Bun.sleep(60);
+        controller.abort();
+        await listen;
+
+        return events;
+    }
+
+    beforeEach(async () => {
+        gateway = new MockGateway();
+        await gateway.start();
+
+        client = new OSClient();
+        await client.connect(gateway.url);
+
+        tree = serveTree(gateway);
+        tree.set('/app', 'folder');
+        tree.set('/app/a.txt', encode('a'));
+        tree.set('/app/b.txt', encode('b'));
+        tree.set('/app/sub', 'folder');
+        tree.set('/app/sub/c.txt', encode('c'));
+    });
+
+    afterEach(() => {
+        client.close();
+        gateway.stop();
+    });
+
+    describe('gateway events', () => {
+        test('yields change events from file:watch', async () => {
+            let cancelled = false;
+
+            gateway.on('file:watch', (_args, reply) => {
+                reply.event({ type: 'created', path: '/app/new.txt' });
+                reply.event({ type: 'progress-ish' });
+                reply.event({ type: 'renamed', path: '/app/c.txt', oldPath: '/app/b.txt' });
+
+                return new Promise<void>((resolve) => {
+                    reply.signal.addEventListener('abort', () => {
+                        cancelled = true;
+                        resolve();
+                    });
+                });
+            });
+
+            const events: WatchEvent[] = [];
+
+            for await (const event of client.watch('/app', { recursive: true })) {
+                events.push(event);
+
+                if (events.length === 2) {
+                    break;
+                }
+            }
+
+            expect(events).toEqual([
+                { type: 'created', path: '/app/new.txt' },
+                { type: 'renamed', path: '/app/c.txt', oldPath: '/app/b.txt' },
+            ]);
+            expect(gateway.received('file:watch')[0].args).toEqual(['/app', { recursive: true }]);
+
+            await Bun.sleep(20);
+            expect(cancelled).toBe(true);
+        });
+
+        test('ends when the gateway ends the subscription', async () => {
+            gateway.on('file:watch', (_args, reply) => {
+                reply.event({ type: 'deleted', path: '/app' });
+            });
+
+            const events: WatchEvent[] = [];
+
+            for await (const event of client.watch('/app')) {
+                events.push(event);
+            }
+
+            expect(events).toEqual([{ type: 'deleted', path: '/app' }]);
+        });
+
+        test('rethrows gateway errors', async () => {
+            gateway.on('file:watch', () => {
+                throw new SyscallError('ENOENT', 'No such file or directory');
+            });
+
+            const iterator = client.watch('/missing')[Symbol.asyncIterator]();
+
+            await expect(iterator.next()).rejects.toMatchObject({ code: 'ENOENT' });
+        });
+    });
+
+    describe('polling', () => {
+        test('falls back to polling when file:watch is not implemented', async () => {
+            const events = await observe('/app', {}, () => {
+                tree.set('/app/new.txt', encode('new'));
+                tree.set('/app/a.txt', encode('changed'));
+                tree.delete('/app/b.txt');
+            });
+
+            expect(events.map(({ type, path }) => ({ type, path }))).toEqual([
+                { type: 'created', path: '/app/new.txt' },
+                { type: 'modified', path: '/app/a.txt' },
+                { type: 'deleted', path: '/app/b.txt' },
+            ]);
+            expect(events[0].stat?.size).toBe(3);
+        });
+
+        test('detects modification by updated_at', async () => {
+            const events = await observe('/app/a.txt', {}, () => {
+                void client.utimes('/app/a.txt', { updated_at: new Date('2025-01-01T00:00:00Z') });
+            });
+
+            expect(events).toHaveLength(1);
+            expect(events[0]).toMatchObject({ type: 'modified', path: '/app/a.txt' });
+            expect(events[0].stat?.updated_at).toBe('2025-01-01T00:00:00.000Z');
+        });
+
+        test('watches only direct children unless recursive', async () => {
+            const shallow = await observe('/app', {}, () => {
+                tree.set('/app/sub/d.txt', encode('d'));
+            });
+
+            expect(shallow).toEqual([]);
+
+            const deep = await observe('/app', { recursive: true }, () => {
+                tree.set('/app/sub/e.txt', encode('e'));
+            });
+
+            expect(deep.map(event => event.path)).toEqual(['/app/sub/e.txt']);
+        });
+
+        test('reports deletion of the watched folder, children first', async () => {
+            const events = await observe('/app', { recursive: true }, () => {
+                for (const path of [...tree.keys()].filter(path => path.startsWith('/app'))) {
+                    tree.delete(path);
+                }
+            });
+
+            expect(events.map(event => event.type)).toEqual(['deleted', 'deleted', 'deleted', 'deleted', 'deleted']);
+            expect(events.map(event => event.path)).toEqual([
+                '/app/sub/c.txt',
+                '/app/sub',
+                '/app/b.txt',
+                '/app/a.txt',
+                '/app',
+            ]);
+        });
+
+        test('reports an entry id at a new path as renamed', async () => {
+            // Stable ids: the file contents
+            gateway.on('file:stat', ([path]: [string]) => {
+                const node = tree.get(path);
+
+                if (node === undefined) {
+                    throw new SyscallError('ENOENT', 'No such file or directory');
+                }
+
+                return {
+                    id: node === 'folder' ? path : new TextDecoder().decode(node),
+                    name: posix.basename(path),
+                    model: node === 'folder' ? 'folder' : 'file',
+                    size: node === 'folder' ? 0 : node.length,
+                    created_at: '2024-01-01T00:00:00.000Z',
+                    updated_at: '2024-01-02T00:00:00.000Z',
+                };
+            });
+
+            const events = await observe('/app', {}, () => {
+                tree.set('/app/renamed.txt', tree.get('/app/a.txt')!);
+                tree.delete('/app/a.txt');
+            });
+
+            expect(events.map(({ type, path, oldPath }) => ({ type, path, oldPath }))).toEqual([
+                { type: 'renamed', path: '/app/renamed.txt', oldPath: '/app/a.txt' },
+            ]);
+        });
+
+        test('skips file:watch when the gateway does not list it', async () => {
+            client.close();
+            gateway.stop();
+
+            // sys:hello lists the handlers registered before start()
+            gateway = new MockGateway({ syscalls: true });
+            tree = serveTree(gateway);
+            tree.set('/app', 'folder');
+            await gateway.start();
+
+            client = new OSClient();
+            await client.connect(gateway.url);
+
+            const events = await observe('/app', {}, () => {
+                tree.set('/app/x', encode('x'));
+            });
+
+            expect(events.map(event => event.path)).toEqual(['/app/x']);
+            expect(gateway.received('file:watch')).toHaveLength(0);
+        });
+
+        test('throws AbortError when the signal is aborted', async () => {
+            const controller = new AbortController();
+            const iterator = client.watch('/app', { signal: controller.signal })[Symbol.asyncIterator]();
+
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(iterator.next()).rejects.toBeInstanceOf(AbortError);
+        });
+    });
+});
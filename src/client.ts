@@ -9,16 +9,60 @@
 import { Transport } from './transport.js';
 import { SyscallError, ConnectionError } from './error.js';
 import type {
+    CallOptions,
+    Capabilities,
     ConnectOptions,
     ConnectionState,
+    EventResponse,
+    RedirectResponse,
     Response,
     Stat,
     DirEntry,
     OpenFlags,
     SpawnOptions,
     SelectOptions,
+    ReadStreamOptions,
+    Whence,
+    WriteOptions,
+    WriteStreamOptions,
+    TreeOptions,
+    WalkOptions,
+    WalkEntry,
+    GlobOptions,
+    CopyOptions,
+    MoveOptions,
+    Timestamps,
+    SyncOptions,
+    SyncResult,
+    WatchOptions,
+    WatchEvent,
+    LockOptions,
+    ExitStatus,
+    ExecOptions,
+    ExecResult,
+    ProcessInfo,
+    ProcessTree,
+    PsOptions,
+    SessionOptions,
+    SignalHandler,
+    SignalOptions,
 } from './types.js';
-import { isError, isOk, isItem, isData } from './types.js';
+import { FOLDER_MODEL, Signal, isError, isOk, isItem, isData, isProgress, isEvent, isRedirect } from './types.js';
+import type { RedirectTarget } from './redirect.js';
+import { RedirectChain, DEFAULT_MAX_REDIRECTS } from './redirect.js';
+import type { Readable } from 'node:stream';
+import { posix } from 'node:path';
+import { createReadStream, createWriteStream, toNodeReadable, DEFAULT_CHUNK_SIZE } from './file-stream.js';
+import { FileHandle } from './handle.js';
+import { walk, glob, mkdirp, rmrf } from './tree.js';
+import { copy, move } from './copy.js';
+import { syncTo, syncFrom } from './sync.js';
+import { exportTar, importTar } from './tar.js';
+import { watch } from './watch.js';
+import { FileLock, lock, tryLock } from './lock.js';
+import type { Process } from './process.js';
+import { spawn, exec, ps, processTree, toExitStatus } from './process.js';
+import { SignalDispatcher } from './signal.js';
 
 // =============================================================================
 // CLIENT CLASS
@@ -45,6 +89,24 @@ import { isError, isOk, isItem, isData } from './types.js';
 export class OSClient {
     private readonly transport: Transport;
 
+    /** Options from the last connect() (reused for redirect gateways) */
+    private options: ConnectOptions = {};
+
+    /** Connections to other gateways named by redirects, by URL */
+    private remotes = new Map<string, Promise<Transport>>();
+
+    /** Open file handles (closed by close()) */
+    private handles = new Set<FileHandle>();
+
+    /** Held file locks (released by close()) */
+    private locks = new Set<FileLock>();
+
+    /** Handlers registered with onSignal() */
+    private readonly signals = new SignalDispatcher(this);
+
+    /** Working directory and environment of a session() view (undefined on the client itself) */
+    private scope: { cwd?: string; env: Record<string, string> } | undefined;
+
     constructor() {
         this.transport = new Transport();
     }
@@ -55,16 +117,48 @@ export class OSClient {
 
     /**
      * Connect to gateway.
+     *
+     * @param options - Connection options, or a gateway URL such as
+     *                  unix:///tmp/monk.sock, tcp://host:7000 or ws://host/gateway
      */
-    async connect(options?: ConnectOptions): Promise<void> {
-        await this.transport.connect(options);
+    async connect(options?: ConnectOptions | string): Promise<void> {
+        const resolved = typeof options === 'string' ? { url: options } : (options ?? {});
+
+        await this.transport.connect(resolved);
+        this.options = resolved;
     }
 
     /**
-     * Close connection.
+     * Close connection (and any connections opened to follow redirects).
+     *
+     * File handles still open are closed on the gateway first, which also
+     * releases file locks; emulated locks have their lock entity removed.
      */
     close(): void {
+        // WHY: fire-and-forget - awaiting replies would make close() async,
+        // and the frames are written before the connection goes away
+        for (const held of this.locks) {
+            if (held.lockPath !== undefined) {
+                this.transport.post('file:unlink', [held.lockPath]);
+            }
+
+            held.detach();
+        }
+
+        this.locks.clear();
+
+        for (const handle of this.handles) {
+            this.transport.post('file:close', [handle.fd]);
+            handle.detach();
+        }
+
         this.transport.close();
+
+        for (const remote of this.remotes.values()) {
+            remote.then(transport => transport.close(), () => {});
+        }
+
+        this.remotes.clear();
     }
 
     /**
@@ -81,6 +175,137 @@ export class OSClient {
         return this.transport.isConnected();
     }
 
+    // =========================================================================
+    // CAPABILITIES
+    // =========================================================================
+
+    /**
+     * Get the gateway's protocol version, syscalls and features.
+     *
+     * Undefined when not connected, or when the gateway predates capability
+     * discovery - every syscall and feature is then assumed to exist.
+     */
+    capabilities(): Capabilities | undefined {
+        return this.transport.getCapabilities();
+    }
+
+    /**
+     * Check whether the gateway implements a syscall (true if unknown).
+     */
+    supports(syscall: string): boolean {
+        return this.capabilities()?.syscalls?.includes(syscall) ?? true;
+    }
+
+    /**
+     * Check whether the gateway has a protocol feature (true if unknown).
+     */
+    hasFeature(feature: string): boolean {
+        return this.capabilities()?.features?.includes(feature) ?? true;
+    }
+
+    /**
+     * Fail fast for syscalls the gateway does not implement.
+     *
+     * @throws SyscallError (ENOSYS)
+     */
+    private requireSyscall(name: string): void {
+        if (!this.supports(name)) {
+            throw new SyscallError('ENOSYS', `Gateway does not support ${name}`, name);
+        }
+    }
+
+    /**
+     * Fail fast when a syscall needs a protocol feature the gateway lacks.
+     *
+     * @throws SyscallError (ENOSYS)
+     */
+    private requireFeature(feature: string, syscall: string): void {
+        if (!this.hasFeature(feature)) {
+            throw new SyscallError('ENOSYS', `Gateway does not support the ${feature} feature needed by ${syscall}`, syscall);
+        }
+    }
+
+    // =========================================================================
+    // SESSIONS
+    // =========================================================================
+
+    /**
+     * Create a view of this client with its own working directory and
+     * environment.
+     *
+     * proc:chdir and proc:setenv change the one gateway-side process that
+     * every caller on the connection shares, so concurrent tasks race.
+     * A session keeps both on the client side instead:
+     *
+     * - relative paths are resolved against the session's cwd
+     * - spawn() and exec() run in the session's cwd with its env added
+     * - chdir(), getcwd(), setenv() and getenv() read and change the session
+     *
+     * Sessions share the connection, open handles and locks with their
+     * client, so closing either closes both. A session of a session
+     * inherits its cwd and env.
+     *
+     * @example
+     * const build = client.session({ cwd: '/app', env: { NODE_ENV: 'production' } });
+     *
+     * await build.readText('package.json');  // /app/package.json
+     * await build.exec('/bin/npm', ['run', 'build']);  // in /app, with NODE_ENV
+     *
+     * @throws SyscallError (EINVAL) if cwd is relative and there is no cwd to resolve it against
+     */
+    session(options: SessionOptions = {}): OSClient {
+        const parent = this.scope;
+        let cwd = parent?.cwd;
+
+        if (options.cwd !== undefined) {
+            if (cwd === undefined && !options.cwd.startsWith('/')) {
+                throw new SyscallError('EINVAL', `Session cwd must be absolute: ${options.cwd}`);
+            }
+
+            cwd = posix.resolve(cwd ?? '/', options.cwd);
+        }
+
+        // WHY: the view inherits every field from this client through its
+        // prototype, so the connection, handles, locks and signal handlers
+        // are shared rather than copied; only the scope is its own
+        const view: OSClient = Object.create(this);
+
+        view.scope = { cwd, env: { ...parent?.env, ...options.env } };
+
+        return view;
+    }
+
+    /**
+     * Resolve a path against the session's cwd (unchanged outside sessions).
+     */
+    private resolvePath(path: string): string {
+        const cwd = this.scope?.cwd;
+
+        return cwd === undefined ? path : posix.resolve(cwd, path);
+    }
+
+    /**
+     * Add the session's cwd and env to spawn() or exec() options.
+     */
+    private scoped<T extends { env?: Record<string, string>; cwd?: string }>(options: T | undefined): T | undefined {
+        if (!this.scope) {
+            return options;
+        }
+
+        const scoped = { ...options } as T;
+        const cwd = options?.cwd === undefined ? this.scope.cwd : this.resolvePath(options.cwd);
+
+        if (cwd !== undefined) {
+            scoped.cwd = cwd;
+        }
+
+        if (Object.keys(this.scope.env).length > 0) {
+            scoped.env = { ...this.scope.env, ...options?.env };
+        }
+
+        return scoped;
+    }
+
     // =========================================================================
     // RAW SYSCALL ACCESS
     // =========================================================================
@@ -93,14 +318,25 @@ export class OSClient {
      * @throws SyscallError on error response
      */
     async call<T = unknown>(name: string, ...args: unknown[]): Promise<T> {
-        const id = this.transport.generateId();
-        const responses = await this.transport.send({ id, call: name, args });
+        return this.callWith<T>(name, args);
+    }
 
-        if (responses.length === 0) {
-            throw new SyscallError('EIO', 'No response received', name);
-        }
+    /**
+     * Execute a syscall with per-call options (abort signal, timeout).
+     *
+     * @throws SyscallError on error response, or ENOSYS if the gateway
+     *         does not implement the syscall
+     * @throws AbortError if the signal is aborted
+     */
+    async callWith<T = unknown>(name: string, args: unknown[], options?: CallOptions): Promise<T> {
+        this.requireSyscall(name);
+
+        const chain = new RedirectChain({ call: name, args }, this.redirectLimit(options));
+        let response = await this.request(chain.current, options);
 
-        const response = responses[0];
+        while (isRedirect(response)) {
+            response = await this.request(chain.follow(response.data), options);
+        }
 
         if (isError(response)) {
             throw SyscallError.fromResponse(response, name);
@@ -126,9 +362,19 @@ export class OSClient {
      * @throws SyscallError on error response
      */
     async collect<T = unknown>(name: string, ...args: unknown[]): Promise<T[]> {
+        return this.collectWith<T>(name, args);
+    }
+
+    /**
+     * Execute a streaming syscall with per-call options and collect all items.
+     *
+     * @throws SyscallError on error response
+     * @throws AbortError if the signal is aborted
+     */
+    async collectWith<T = unknown>(name: string, args: unknown[], options?: CallOptions): Promise<T[]> {
         const items: T[] = [];
 
-        for await (const item of this.iterate<T>(name, ...args)) {
+        for await (const item of this.iterateWith<T>(name, args, options)) {
             items.push(item);
         }
 
@@ -143,13 +389,28 @@ export class OSClient {
      * @throws SyscallError on error response
      */
     async *iterate<T = unknown>(name: string, ...args: unknown[]): AsyncIterable<T> {
-        const id = this.transport.generateId();
+        yield* this.iterateWith<T>(name, args);
+    }
 
-        for await (const response of this.transport.stream({ id, call: name, args })) {
+    /**
+     * Execute a streaming syscall with per-call options and iterate items.
+     *
+     * Breaking out of the loop or aborting the signal tells the gateway to
+     * stop producing items.
+     *
+     * @throws SyscallError on error response
+     * @throws AbortError if the signal is aborted
+     */
+    async *iterateWith<T = unknown>(name: string, args: unknown[], options?: CallOptions): AsyncIterable<T> {
+        for await (const response of this.streamFollowing(name, args, options)) {
             if (isError(response)) {
                 throw SyscallError.fromResponse(response, name);
             }
 
+            if (isProgress(response)) {
+                options?.onProgress?.(response.data ?? {});
+            }
+
             if (isItem(response)) {
                 yield response.data as T;
             }
@@ -159,19 +420,189 @@ export class OSClient {
                 yield response.bytes as unknown as T;
             }
 
-            // ok/done/redirect are terminal - handled by transport
+            // ok/done are terminal - handled by transport
         }
     }
 
     /**
      * Execute a syscall and stream raw responses.
      *
-     * For advanced use cases where you need full response access.
+     * For advanced use cases where you need full response access. Redirects
+     * are yielded as-is, not followed.
      */
     async *stream(name: string, ...args: unknown[]): AsyncIterable<Response> {
+        yield* this.streamWith(name, args);
+    }
+
+    /**
+     * Execute a syscall with per-call options and stream raw responses.
+     *
+     * @throws SyscallError (ENOSYS) if the gateway does not implement the syscall
+     * @throws AbortError if the signal is aborted
+     */
+    async *streamWith(name: string, args: unknown[], options?: CallOptions): AsyncIterable<Response> {
+        this.requireSyscall(name);
+
         const id = this.transport.generateId();
 
-        yield* this.transport.stream({ id, call: name, args });
+        yield* this.transport.stream({ id, call: name, args }, options);
+    }
+
+    // =========================================================================
+    // REDIRECTS
+    // =========================================================================
+
+    /**
+     * Send a request to a target and return its result response.
+     *
+     * @throws SyscallError (EIO) if no result arrived
+     */
+    private async request(target: RedirectTarget, options?: CallOptions): Promise<Response> {
+        const transport = await this.transportFor(target);
+        const id = transport.generateId();
+        const responses = await transport.send({ id, call: target.call, args: target.args }, options);
+
+        // Progress and events may precede the result
+        const response = responses.find(r => !isProgress(r) && !isEvent(r));
+
+        if (!response) {
+            throw new SyscallError('EIO', 'No response received', target.call);
+        }
+
+        return response;
+    }
+
+    /**
+     * Stream responses, following redirects to the final target.
+     *
+     * @throws SyscallError (ENOSYS) if the gateway does not implement the syscall
+     * @throws SyscallError (ELOOP) on redirect loops or too many redirects
+     */
+    private async *streamFollowing(name: string, args: unknown[], options?: CallOptions): AsyncIterable<Response> {
+        this.requireSyscall(name);
+
+        const chain = new RedirectChain({ call: name, args }, this.redirectLimit(options));
+        let target = chain.current;
+
+        while (true) {
+            const transport = await this.transportFor(target);
+            const id = transport.generateId();
+            let redirect: RedirectResponse | undefined;
+
+            for await (const response of transport.stream({ id, call: target.call, args: target.args }, options)) {
+                if (isRedirect(response)) {
+                    redirect = response;
+                    break;
+                }
+
+                yield response;
+            }
+
+            if (!redirect) {
+                return;
+            }
+
+            target = chain.follow(redirect.data);
+        }
+    }
+
+    /**
+     * Get the transport for a target's gateway, connecting on first use.
+     *
+     * Other gateways are connected with their settings from the gateways
+     * option, falling back to the main connection's timeout and reconnect.
+     *
+     * @throws SyscallError (EACCES) if the gateway is not in the gateways option
+     */
+    private async transportFor(target: RedirectTarget): Promise<Transport> {
+        const { gateway, call } = target;
+
+        if (gateway === undefined || gateway === this.options.url) {
+            return this.transport;
+        }
+
+        const { gateways = {}, timeout, reconnect } = this.options;
+
+        if (!Object.hasOwn(gateways, gateway)) {
+            throw new SyscallError('EACCES', `Redirect to unlisted gateway ${gateway}`, call);
+        }
+
+        const existing = this.remotes.get(gateway);
+
+        if (existing) {
+            const transport = await existing;
+
+            if (transport.getState() !== 'disconnected') {
+                return transport;
+            }
+
+            // Dropped for good - connect again below
+            if (this.remotes.get(gateway) === existing) {
+                this.remotes.delete(gateway);
+            }
+
+            return this.transportFor(target);
+        }
+
+        const transport = new Transport();
+        const connecting = transport.connect({ timeout, reconnect, ...gateways[gateway], url: gateway }).then(() => transport);
+
+        this.remotes.set(gateway, connecting);
+
+        try {
+            return await connecting;
+        }
+        catch (err) {
+            this.remotes.delete(gateway);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the redirect hop limit for a call.
+     */
+    private redirectLimit(options?: CallOptions): number {
+        return options?.maxRedirects ?? this.options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    }
+
+    // =========================================================================
+    // EVENTS
+    // =========================================================================
+
+    /**
+     * Iterate unsolicited gateway events (not tied to any request).
+     *
+     * Survives reconnects; ends with an error once the client disconnects.
+     * Stop listening by breaking out of the loop or aborting the signal.
+     *
+     * @example
+     * for await (const event of client.events()) {
+     *     console.log(event.data?.type);
+     * }
+     */
+    async *events(options?: CallOptions): AsyncIterable<EventResponse> {
+        yield* this.transport.events(options);
+    }
+
+    /**
+     * Handle a signal sent to the gateway-attached process (this client).
+     *
+     * The gateway delivers it as an event ({ type: 'signal', signal }).
+     * Handlers keep receiving across reconnects, until removed or the
+     * client disconnects; a disconnect, and anything the handler throws,
+     * is reported to options.onError.
+     *
+     * @returns Function that removes the handler
+     * @throws ConnectionError (ENOTCONN) if not connected
+     *
+     * @example
+     * const off = client.onSignal(Signal.SIGTERM, async () => {
+     *     await flush();
+     *     client.close();
+     * }, { onError: err => log.warn('SIGTERM handler failed', err) });
+     */
+    onSignal(signal: Signal, handler: SignalHandler, options?: SignalOptions): () => void {
+        return this.signals.on(signal, handler, options);
     }
 
     // =========================================================================
@@ -181,16 +612,36 @@ export class OSClient {
     /**
      * Open a file and return file descriptor.
      */
-    async open(path: string, flags?: OpenFlags): Promise<number> {
+    async open(path: string, flags?: OpenFlags, options?: CallOptions): Promise<number> {
         // Gateway returns fd directly as data: number
-        return this.call<number>('file:open', path, flags);
+        return this.callWith<number>('file:open', [this.resolvePath(path), flags], options);
+    }
+
+    /**
+     * Open a file and return a FileHandle.
+     *
+     * The handle is closed by handle.close(), by `await using`, or when the
+     * client closes - whichever comes first.
+     *
+     * @example
+     * await using handle = await client.openHandle('/tmp/out.txt', { write: true, create: true });
+     * await handle.write('hello');
+     */
+    async openHandle(path: string, flags?: OpenFlags, options?: CallOptions): Promise<FileHandle> {
+        const resolved = this.resolvePath(path);
+        const fd = await this.open(resolved, flags, options);
+        const handle = new FileHandle(this, fd, resolved, closed => this.handles.delete(closed));
+
+        this.handles.add(handle);
+
+        return handle;
     }
 
     /**
      * Close a file descriptor.
      */
-    async fclose(fd: number): Promise<void> {
-        await this.call('file:close', fd);
+    async fclose(fd: number, options?: CallOptions): Promise<void> {
+        await this.callWith('file:close', [fd], options);
     }
 
     /**
@@ -198,14 +649,25 @@ export class OSClient {
      *
      * Returns all data as a single Uint8Array.
      */
-    async read(fd: number, size?: number): Promise<Uint8Array> {
+    async read(fd: number, size?: number, options?: CallOptions): Promise<Uint8Array> {
+        return this.readChunks([fd, size], options);
+    }
+
+    /**
+     * Collect the data frames of a file:read into one Uint8Array.
+     */
+    private async readChunks(args: unknown[], options?: CallOptions): Promise<Uint8Array> {
         const chunks: Uint8Array[] = [];
 
-        for await (const response of this.stream('file:read', fd, size)) {
+        for await (const response of this.streamFollowing('file:read', args, options)) {
             if (isError(response)) {
                 throw SyscallError.fromResponse(response, 'file:read');
             }
 
+            if (isProgress(response)) {
+                options?.onProgress?.(response.data ?? {});
+            }
+
             if (isData(response)) {
                 // Binary data comes directly as Uint8Array (msgpack handles it natively)
                 chunks.push(response.bytes);
@@ -232,118 +694,458 @@ export class OSClient {
      * MessagePack handles Uint8Array natively, so no encoding needed.
      *
      * @returns Number of bytes written
+     * @throws SyscallError (ENOSYS) if the gateway lacks the binary feature
      */
-    async write(fd: number, data: Uint8Array | string): Promise<number> {
+    async write(fd: number, data: Uint8Array | string, options?: CallOptions): Promise<number> {
+        this.requireFeature('binary', 'file:write');
+
         const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
         // Send Uint8Array directly - msgpack handles binary natively
-        const result = await this.call<{ written: number }>('file:write', fd, { data: bytes });
+        const result = await this.callWith<{ written: number }>('file:write', [fd, { data: bytes }], options);
+
+        return result.written;
+    }
+
+    // =========================================================================
+    // POSITIONAL FILE I/O
+    // =========================================================================
+
+    /**
+     * Move the file position of a descriptor.
+     *
+     * @returns New position from the start of the file
+     */
+    async seek(fd: number, offset: number, whence: Whence = 'set', options?: CallOptions): Promise<number> {
+        return this.callWith<number>('file:seek', [fd, offset, whence], options);
+    }
+
+    /**
+     * Get the file position of a descriptor.
+     */
+    async tell(fd: number, options?: CallOptions): Promise<number> {
+        return this.seek(fd, 0, 'cur', options);
+    }
+
+    /**
+     * Read up to length bytes at an offset without moving the file position.
+     *
+     * Sent as file:read [fd, length, { position }].
+     *
+     * @throws SyscallError (ENOSYS) if the gateway lacks the positional feature
+     */
+    async pread(fd: number, offset: number, length: number, options?: CallOptions): Promise<Uint8Array> {
+        this.requireFeature('positional', 'file:read');
+
+        return this.readChunks([fd, length, { position: offset }], options);
+    }
+
+    /**
+     * Write at an offset without moving the file position.
+     *
+     * On descriptors opened with append the offset is ignored and data is
+     * appended. Sent as file:write [fd, { data, position }].
+     *
+     * @returns Number of bytes written
+     * @throws SyscallError (ENOSYS) if the gateway lacks the binary or positional feature
+     */
+    async pwrite(fd: number, offset: number, data: Uint8Array | string, options?: CallOptions): Promise<number> {
+        this.requireFeature('binary', 'file:write');
+        this.requireFeature('positional', 'file:write');
+
+        const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+        const result = await this.callWith<{ written: number }>(
+            'file:write',
+            [fd, { data: bytes, position: offset }],
+            options,
+        );
 
         return result.written;
     }
 
+    /**
+     * Truncate (or zero-extend) an open file to length bytes.
+     *
+     * The descriptor must be open for writing; its position is unchanged.
+     */
+    async ftruncate(fd: number, length: number, options?: CallOptions): Promise<void> {
+        await this.callWith('file:ftruncate', [fd, length], options);
+    }
+
+    /**
+     * Truncate (or zero-extend) a file by path to length bytes.
+     */
+    async truncate(path: string, length = 0, options?: CallOptions): Promise<void> {
+        await this.callWith('file:truncate', [this.resolvePath(path), length], options);
+    }
+
+    /**
+     * Write all bytes in bounded chunks.
+     *
+     * Each file:write frame carries at most chunkSize bytes and waits for
+     * the gateway's ack before the next is sent; short writes continue with
+     * the remainder. onProgress reports bytes acknowledged so far.
+     *
+     * @returns Number of bytes written
+     * @throws SyscallError (ENOSYS) if the gateway lacks the binary feature
+     */
+    async writeAll(fd: number, data: Uint8Array | string, options: WriteOptions = {}): Promise<number> {
+        const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+        const { chunkSize = DEFAULT_CHUNK_SIZE, onProgress, ...callOptions } = options;
+        let offset = 0;
+
+        while (offset < bytes.length) {
+            const written = await this.write(fd, bytes.subarray(offset, offset + chunkSize), callOptions);
+
+            if (written <= 0) {
+                throw new SyscallError('EIO', 'Gateway accepted no bytes', 'file:write');
+            }
+
+            offset += written;
+            onProgress?.({ done: offset, total: bytes.length, unit: 'bytes' });
+        }
+
+        return offset;
+    }
+
+    /**
+     * Stream a file (by path or open descriptor) as a ReadableStream.
+     *
+     * Reads are issued on demand in highWaterMark-sized requests, so the
+     * file is never held in memory whole. start/end select a byte range
+     * (end inclusive; start needs the positional feature).
+     *
+     * @example
+     * const gzipped = client.createReadStream('/var/log/app.log')
+     *     .pipeThrough(new CompressionStream('gzip'));
+     *
+     * await Bun.write('app.log.gz', new Response(gzipped));
+     */
+    createReadStream(source: string | number, options?: ReadStreamOptions): ReadableStream<Uint8Array> {
+        return createReadStream(this, typeof source === 'string' ? this.resolvePath(source) : source, options);
+    }
+
+    /**
+     * Stream a file as a Node Readable (see createReadStream).
+     *
+     * @example
+     * client.createNodeReadStream('/var/log/app.log').pipe(zlib.createGzip()).pipe(out);
+     */
+    createNodeReadStream(source: string | number, options?: ReadStreamOptions): Readable {
+        return toNodeReadable(this.createReadStream(source, options));
+    }
+
+    /**
+     * Open a file for streaming writes.
+     *
+     * Data is sent in bounded chunks, each waiting for the gateway's ack,
+     * so large uploads are never buffered whole.
+     *
+     * @example
+     * await Bun.file('artifact.tar').stream().pipeTo(client.createWriteStream('/dist/artifact.tar'));
+     *
+     * @throws SyscallError (ENOSYS) if the gateway lacks the binary feature
+     */
+    createWriteStream(path: string, options?: WriteStreamOptions): WritableStream<Uint8Array> {
+        this.requireFeature('binary', 'file:write');
+
+        return createWriteStream(this, this.resolvePath(path), options);
+    }
+
     /**
      * Get file/directory stats.
      */
-    async stat(path: string): Promise<Stat> {
-        return this.call<Stat>('file:stat', path);
+    async stat(path: string, options?: CallOptions): Promise<Stat> {
+        return this.callWith<Stat>('file:stat', [this.resolvePath(path)], options);
     }
 
     /**
      * Get stats for open file descriptor.
      */
-    async fstat(fd: number): Promise<Stat> {
-        return this.call<Stat>('file:fstat', fd);
+    async fstat(fd: number, options?: CallOptions): Promise<Stat> {
+        return this.callWith<Stat>('file:fstat', [fd], options);
     }
 
     /**
      * Create directory.
      */
-    async mkdir(path: string): Promise<void> {
-        await this.call('file:mkdir', path);
+    async mkdir(path: string, options?: CallOptions): Promise<void> {
+        await this.callWith('file:mkdir', [this.resolvePath(path)], options);
     }
 
     /**
      * Remove file.
      */
-    async unlink(path: string): Promise<void> {
-        await this.call('file:unlink', path);
+    async unlink(path: string, options?: CallOptions): Promise<void> {
+        await this.callWith('file:unlink', [this.resolvePath(path)], options);
     }
 
     /**
      * Remove directory.
      */
-    async rmdir(path: string): Promise<void> {
-        await this.call('file:rmdir', path);
+    async rmdir(path: string, options?: CallOptions): Promise<void> {
+        await this.callWith('file:rmdir', [this.resolvePath(path)], options);
     }
 
     /**
      * Read directory entries.
      */
-    async *readdir(path: string): AsyncIterable<DirEntry> {
-        yield* this.iterate<DirEntry>('file:readdir', path);
+    async *readdir(path: string, options?: CallOptions): AsyncIterable<DirEntry> {
+        yield* this.iterateWith<DirEntry>('file:readdir', [this.resolvePath(path)], options);
     }
 
     /**
      * Read directory entries as array.
      */
-    async readdirSync(path: string): Promise<DirEntry[]> {
-        return this.collect<DirEntry>('file:readdir', path);
+    async readdirSync(path: string, options?: CallOptions): Promise<DirEntry[]> {
+        return this.collectWith<DirEntry>('file:readdir', [this.resolvePath(path)], options);
     }
 
     /**
      * Rename file or directory.
      */
-    async rename(oldPath: string, newPath: string): Promise<void> {
-        await this.call('file:rename', oldPath, newPath);
+    async rename(oldPath: string, newPath: string, options?: CallOptions): Promise<void> {
+        await this.callWith('file:rename', [this.resolvePath(oldPath), this.resolvePath(newPath)], options);
+    }
+
+    /**
+     * Set file or folder timestamps.
+     */
+    async utimes(path: string, times: Timestamps, options?: CallOptions): Promise<void> {
+        const wire: Record<string, string> = {};
+
+        for (const [field, value] of Object.entries(times)) {
+            if (value !== undefined) {
+                wire[field] = value instanceof Date ? value.toISOString() : value;
+            }
+        }
+
+        await this.callWith('file:utimes', [this.resolvePath(path), wire], options);
     }
 
     // =========================================================================
-    // CONVENIENCE FILE OPERATIONS
+    // FILE LOCKS
     // =========================================================================
 
     /**
-     * Read entire file contents.
+     * Lock a file, waiting while another client holds a conflicting lock.
+     *
+     * Uses the gateway's file:flock when available, and an exclusively
+     * created `<path>.lock` entity otherwise. The lock is released by
+     * release(), by `await using`, by unlock(), or when the client closes.
+     *
+     * @example
+     * await using lock = await client.lock('/app/config.json', { timeout: 5000 });
+     *
+     * @throws TimeoutError if options.timeout passes first
      */
-    async readFile(path: string): Promise<Uint8Array> {
-        const fd = await this.open(path, { read: true });
+    async lock(path: string, options: LockOptions = {}): Promise<FileLock> {
+        const held = await lock(this, this.resolvePath(path), options, released => this.locks.delete(released));
 
-        try {
-            return await this.read(fd);
+        this.locks.add(held);
+
+        return held;
+    }
+
+    /**
+     * Lock a file if no other client holds a conflicting lock.
+     *
+     * @returns The lock, or undefined if it is held elsewhere
+     */
+    async tryLock(path: string, options: LockOptions = {}): Promise<FileLock | undefined> {
+        const held = await tryLock(this, this.resolvePath(path), options, released => this.locks.delete(released));
+
+        if (held) {
+            this.locks.add(held);
         }
-        finally {
-            await this.fclose(fd);
+
+        return held;
+    }
+
+    /**
+     * Release a lock, or every lock this client holds on a path.
+     */
+    async unlock(target: FileLock | string, options?: CallOptions): Promise<void> {
+        const path = typeof target === 'string' ? this.resolvePath(target) : undefined;
+        const locks = typeof target === 'string'
+            ? [...this.locks].filter(held => held.path === path)
+            : [target];
+
+        for (const held of locks) {
+            await held.release(options);
         }
     }
 
+    // =========================================================================
+    // TREE OPERATIONS
+    // =========================================================================
+
+    /**
+     * Walk a directory tree depth-first (folders before their contents).
+     *
+     * @example
+     * for await (const { path, stat } of client.walk('/var/log', { depth: 2 })) {
+     *     console.log(path, stat.size);
+     * }
+     */
+    walk(root: string, options?: WalkOptions): AsyncIterable<WalkEntry> {
+        return walk(this, this.resolvePath(root), options);
+    }
+
+    /**
+     * Find paths matching a glob pattern (`**`, `*`, `?`, `{a,b}`).
+     *
+     * @example
+     * const logs = await client.glob('/var/log/{app,api}/*.log');
+     */
+    async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+        // WHY: glob resolves relative patterns against options.cwd itself
+        const cwd = this.scope?.cwd === undefined ? options?.cwd : this.resolvePath(options?.cwd ?? '.');
+
+        return glob(this, pattern, { ...options, cwd });
+    }
+
+    /**
+     * Watch a file or folder for changes (created, modified, deleted,
+     * renamed).
+     *
+     * Uses the gateway's file:watch events when available, polling stats
+     * every `interval` milliseconds otherwise. Runs until the loop is left
+     * or the signal is aborted.
+     *
+     * @example
+     * for await (const event of client.watch('/app/src', { recursive: true })) {
+     *     console.log(event.type, event.path);
+     * }
+     */
+    watch(path: string, options?: WatchOptions): AsyncIterable<WatchEvent> {
+        return watch(this, this.resolvePath(path), options);
+    }
+
+    /**
+     * Copy a file, or a folder tree with `recursive`.
+     *
+     * Uses the gateway's file:copy when available, streaming otherwise.
+     *
+     * @example
+     * await client.copy('/app/config', '/backup/config', {
+     *     recursive: true,
+     *     overwrite: 'replace',
+     *     preserveTimestamps: true,
+     * });
+     */
+    async copy(src: string, dst: string, options?: CopyOptions): Promise<void> {
+        await copy(this, this.resolvePath(src), this.resolvePath(dst), options);
+    }
+
+    /**
+     * Move a file or folder tree (rename, or copy and remove across mounts).
+     */
+    async move(src: string, dst: string, options?: MoveOptions): Promise<void> {
+        await move(this, this.resolvePath(src), this.resolvePath(dst), options);
+    }
+
+    /**
+     * Mirror a local directory into a Monk OS path.
+     *
+     * @example
+     * const { changes } = await client.syncTo('./dist', '/app/www', { delete: true });
+     */
+    async syncTo(localDir: string, remotePath: string, options?: SyncOptions): Promise<SyncResult> {
+        return syncTo(this, localDir, this.resolvePath(remotePath), options);
+    }
+
+    /**
+     * Mirror a Monk OS path into a local directory.
+     */
+    async syncFrom(remotePath: string, localDir: string, options?: SyncOptions): Promise<SyncResult> {
+        return syncFrom(this, this.resolvePath(remotePath), localDir, options);
+    }
+
+    /**
+     * Archive a subtree as a ustar stream (PAX headers carry Stat metadata).
+     *
+     * @example
+     * await Bun.write('backup.tar', new Response(client.exportTar('/app')));
+     */
+    exportTar(remotePath: string, options?: TreeOptions): ReadableStream<Uint8Array> {
+        return exportTar(this, this.resolvePath(remotePath), options);
+    }
+
+    /**
+     * Extract a tar stream into a Monk OS path.
+     *
+     * @example
+     * await client.importTar(Bun.file('fixtures.tar').stream(), '/test/fixtures');
+     */
+    async importTar(stream: ReadableStream<Uint8Array>, remotePath: string, options?: CallOptions): Promise<void> {
+        await importTar(this, stream, this.resolvePath(remotePath), options);
+    }
+
+    /**
+     * Create a directory and any missing parents (like `mkdir -p`).
+     *
+     * @returns First directory created, or undefined if it already existed
+     */
+    async mkdirp(path: string, options?: CallOptions): Promise<string | undefined> {
+        return mkdirp(this, this.resolvePath(path), options);
+    }
+
+    /**
+     * Remove a file or directory tree; missing paths are ignored (like `rm -rf`).
+     */
+    async rmrf(path: string, options?: TreeOptions): Promise<void> {
+        await rmrf(this, this.resolvePath(path), options);
+    }
+
+    // =========================================================================
+    // CONVENIENCE FILE OPERATIONS
+    // =========================================================================
+
+    /**
+     * Read entire file contents.
+     *
+     * The descriptor is closed even if the signal aborts the read.
+     */
+    async readFile(path: string, options?: CallOptions): Promise<Uint8Array> {
+        await using handle = await this.openHandle(path, { read: true }, options);
+
+        return await handle.read(undefined, options);
+    }
+
     /**
      * Read entire file as text.
      */
-    async readText(path: string, encoding: BufferEncoding = 'utf-8'): Promise<string> {
-        const data = await this.readFile(path);
+    async readText(
+        path: string,
+        encoding: BufferEncoding = 'utf-8',
+        options?: CallOptions,
+    ): Promise<string> {
+        const data = await this.readFile(path, options);
 
         return Buffer.from(data).toString(encoding);
     }
 
     /**
      * Write data to file (creating if needed).
+     *
+     * Large data is sent in bounded chunks (see writeAll). The descriptor
+     * is closed even if the signal aborts the write.
      */
-    async writeFile(path: string, data: Uint8Array | string): Promise<void> {
-        const fd = await this.open(path, { write: true, create: true, truncate: true });
+    async writeFile(path: string, data: Uint8Array | string, options?: WriteOptions): Promise<void> {
+        // Fail before creating or truncating the file
+        this.requireFeature('binary', 'file:write');
 
-        try {
-            await this.write(fd, data);
-        }
-        finally {
-            await this.fclose(fd);
-        }
+        await using handle = await this.openHandle(path, { write: true, create: true, truncate: true }, options);
+
+        await handle.write(data, options);
     }
 
     /**
      * Check if path exists.
      */
-    async exists(path: string): Promise<boolean> {
+    async exists(path: string, options?: CallOptions): Promise<boolean> {
         try {
-            await this.stat(path);
+            await this.stat(path, options);
 
             return true;
         }
@@ -363,9 +1165,9 @@ export class OSClient {
     /**
      * Get current process ID.
      */
-    async getpid(): Promise<string> {
+    async getpid(options?: CallOptions): Promise<string> {
         // Gateway returns pid directly (may be number, convert to string)
-        const result = await this.call<string | number>('proc:getpid');
+        const result = await this.callWith<string | number>('proc:getpid', [], options);
 
         return String(result);
     }
@@ -373,53 +1175,165 @@ export class OSClient {
     /**
      * Get parent process ID.
      */
-    async getppid(): Promise<string> {
+    async getppid(options?: CallOptions): Promise<string> {
         // Gateway returns ppid directly (may be number, convert to string)
-        const result = await this.call<string | number>('proc:getppid');
+        const result = await this.callWith<string | number>('proc:getppid', [], options);
 
         return String(result);
     }
 
     /**
-     * Get current working directory.
+     * Get current working directory (a session's own, if it has one).
      */
-    async getcwd(): Promise<string> {
+    async getcwd(options?: CallOptions): Promise<string> {
+        if (this.scope?.cwd !== undefined) {
+            return this.scope.cwd;
+        }
+
         // Gateway returns cwd directly as string
-        return this.call<string>('proc:getcwd');
+        return this.callWith<string>('proc:getcwd', [], options);
     }
 
     /**
      * Change current working directory.
+     *
+     * In a session, only the session's cwd changes.
+     *
+     * @throws SyscallError (ENOTDIR) in a session, if path is not a folder
      */
-    async chdir(path: string): Promise<void> {
-        await this.call('proc:chdir', path);
+    async chdir(path: string, options?: CallOptions): Promise<void> {
+        if (!this.scope) {
+            await this.callWith('proc:chdir', [path], options);
+
+            return;
+        }
+
+        const cwd = posix.resolve(await this.getcwd(options), path);
+        const stat = await this.stat(cwd, options);
+
+        if (stat.model !== FOLDER_MODEL) {
+            throw new SyscallError('ENOTDIR', `Not a directory: ${cwd}`, 'proc:chdir');
+        }
+
+        this.scope.cwd = cwd;
     }
 
     /**
-     * Get environment variable.
+     * Get environment variable (a session's own, if it set one).
      */
-    async getenv(name: string): Promise<string | undefined> {
+    async getenv(name: string, options?: CallOptions): Promise<string | undefined> {
+        if (this.scope && Object.hasOwn(this.scope.env, name)) {
+            return this.scope.env[name];
+        }
+
         // Gateway returns value directly (or undefined/null if not set)
-        const result = await this.call<string | null | undefined>('proc:getenv', name);
+        const result = await this.callWith<string | null | undefined>('proc:getenv', [name], options);
 
         return result ?? undefined;
     }
 
     /**
      * Set environment variable.
+     *
+     * In a session, the variable is only added to the session's env.
      */
-    async setenv(name: string, value: string): Promise<void> {
-        await this.call('proc:setenv', name, value);
+    async setenv(name: string, value: string, options?: CallOptions): Promise<void> {
+        if (this.scope) {
+            this.scope.env[name] = value;
+
+            return;
+        }
+
+        await this.callWith('proc:setenv', [name, value], options);
     }
 
     /**
      * Spawn a child process.
+     *
+     * With `stdio: 'pipe'` (or per stream), the process's stdin, stdout
+     * and stderr are exposed as web streams.
+     *
+     * @example
+     * const worker = await client.spawn('/bin/worker', { args: ['--once'] });
+     * const { code } = await worker.wait();
      */
-    async spawn(path: string, options?: SpawnOptions): Promise<string> {
-        // Gateway returns pid directly (may be number, convert to string)
-        const result = await this.call<string | number>('proc:spawn', path, options);
+    async spawn(path: string, options?: SpawnOptions, callOptions?: CallOptions): Promise<Process> {
+        return spawn(this, path, this.scoped(options), callOptions);
+    }
 
-        return String(result);
+    /**
+     * Run a program to completion and collect its output and exit status.
+     *
+     * @example
+     * const { code, stdout, stderr } = await client.exec('/bin/tsc', ['--noEmit'], { cwd: '/app' });
+     */
+    async exec(path: string, args?: string[], options?: ExecOptions): Promise<ExecResult> {
+        return exec(this, path, args, this.scoped(options));
+    }
+
+    /**
+     * Wait for a child process to exit.
+     *
+     * Children may run for hours, so the response timeout does not apply;
+     * use a signal to stop waiting.
+     */
+    async wait(pid: string, options?: CallOptions): Promise<ExitStatus> {
+        // WHY: streamed - stream() has no response timeout, unlike call()
+        for await (const response of this.streamWith('proc:wait', [pid], options)) {
+            if (isError(response)) {
+                throw SyscallError.fromResponse(response, 'proc:wait');
+            }
+
+            if (isOk(response)) {
+                return toExitStatus(response.data ?? {});
+            }
+        }
+
+        throw new SyscallError('EIO', 'No exit status received', 'proc:wait');
+    }
+
+    /**
+     * Get a child's exit status without waiting.
+     *
+     * @returns Exit status, or undefined if the child is still running
+     */
+    async tryWait(pid: string, options?: CallOptions): Promise<ExitStatus | undefined> {
+        const result = await this.callWith<Record<string, unknown>>('proc:wait', [pid, { nohang: true }], options);
+
+        // Running children have no status yet
+        if (result.code === undefined && result.signal === undefined) {
+            return undefined;
+        }
+
+        return toExitStatus(result);
+    }
+
+    /**
+     * List processes (proc:list).
+     *
+     * @example
+     * for await (const { pid, path, state } of client.ps({ state: ['running', 'sleeping'] })) {
+     *     console.log(pid, state, path);
+     * }
+     */
+    ps(options?: PsOptions): AsyncIterable<ProcessInfo> {
+        return ps(this, options);
+    }
+
+    /**
+     * Get a process and its descendants as a tree.
+     *
+     * @throws SyscallError (ESRCH) if no process has the pid
+     */
+    async processTree(pid: string, options?: CallOptions): Promise<ProcessTree> {
+        return processTree(this, pid, options);
+    }
+
+    /**
+     * Send a signal to a process (default: SIGTERM).
+     */
+    async kill(pid: string, signal: Signal = Signal.SIGTERM, options?: CallOptions): Promise<void> {
+        await this.callWith('proc:kill', [pid, signal], options);
     }
 
     // =========================================================================
@@ -432,8 +1346,9 @@ export class OSClient {
     async *select<T = Record<string, unknown>>(
         model: string,
         options?: SelectOptions,
+        callOptions?: CallOptions,
     ): AsyncIterable<T> {
-        yield* this.iterate<T>('ems:select', model, options);
+        yield* this.iterateWith<T>('ems:select', [model, options], callOptions);
     }
 
     /**
@@ -442,8 +1357,9 @@ export class OSClient {
     async selectAll<T = Record<string, unknown>>(
         model: string,
         options?: SelectOptions,
+        callOptions?: CallOptions,
     ): Promise<T[]> {
-        return this.collect<T>('ems:select', model, options);
+        return this.collectWith<T>('ems:select', [model, options], callOptions);
     }
 
     /**
@@ -452,8 +1368,9 @@ export class OSClient {
     async selectOne<T = Record<string, unknown>>(
         model: string,
         options?: SelectOptions,
+        callOptions?: CallOptions,
     ): Promise<T | undefined> {
-        const results = await this.selectAll<T>(model, { ...options, limit: 1 });
+        const results = await this.selectAll<T>(model, { ...options, limit: 1 }, callOptions);
 
         return results[0];
     }
@@ -464,8 +1381,9 @@ export class OSClient {
     async create<T = Record<string, unknown>>(
         model: string,
         data: Record<string, unknown>,
+        options?: CallOptions,
     ): Promise<T> {
-        return this.call<T>('ems:create', model, data);
+        return this.callWith<T>('ems:create', [model, data], options);
     }
 
     /**
@@ -475,15 +1393,16 @@ export class OSClient {
         model: string,
         id: string,
         data: Record<string, unknown>,
+        options?: CallOptions,
     ): Promise<T> {
-        return this.call<T>('ems:update', model, id, data);
+        return this.callWith<T>('ems:update', [model, id, data], options);
     }
 
     /**
      * Delete entity from EMS.
      */
-    async delete(model: string, id: string): Promise<void> {
-        await this.call('ems:delete', model, id);
+    async delete(model: string, id: string, options?: CallOptions): Promise<void> {
+        await this.callWith('ems:delete', [model, id], options);
     }
 
     // =========================================================================
@@ -497,29 +1416,34 @@ export class OSClient {
         protocol: string,
         url: string,
         options?: Record<string, unknown>,
+        callOptions?: CallOptions,
     ): Promise<number> {
         // Gateway returns fd directly as number
-        return this.call<number>('channel:open', protocol, url, options);
+        return this.callWith<number>('channel:open', [protocol, url, options], callOptions);
     }
 
     /**
      * Close a channel.
      */
-    async channelClose(fd: number): Promise<void> {
-        await this.call('channel:close', fd);
+    async channelClose(fd: number, options?: CallOptions): Promise<void> {
+        await this.callWith('channel:close', [fd], options);
     }
 
     /**
      * Make a request/response call on a channel.
      */
-    async channelCall<T = unknown>(fd: number, message: unknown): Promise<T> {
-        return this.call<T>('channel:call', fd, message);
+    async channelCall<T = unknown>(fd: number, message: unknown, options?: CallOptions): Promise<T> {
+        return this.callWith<T>('channel:call', [fd, message], options);
     }
 
     /**
      * Stream responses from a channel.
      */
-    async *channelStream<T = unknown>(fd: number, message: unknown): AsyncIterable<T> {
-        yield* this.iterate<T>('channel:stream', fd, message);
+    async *channelStream<T = unknown>(
+        fd: number,
+        message: unknown,
+        options?: CallOptions,
+    ): AsyncIterable<T> {
+        yield* this.iterateWith<T>('channel:stream', [fd, message], options);
     }
 }
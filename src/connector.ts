@@ -0,0 +1,393 @@
+/**
+ * Connector - Pluggable byte-stream backends for the gateway connection
+ *
+ * A Connector opens a Connection that carries raw bytes to and from the
+ * gateway. Framing and request correlation stay in Transport, so every
+ * backend carries the same length-prefixed MessagePack frames.
+ *
+ * Built-in backends:
+ * - unix:///tmp/monk.sock  (UnixConnector)
+ * - tcp://host:7000        (TcpConnector)
+ * - tls://host:7000        (TcpConnector with TLS)
+ * - ws://host/gateway      (WebSocketConnector, also wss://)
+ *
+ * @module connector
+ */
+
+import type { ConnectOptions, TlsOptions } from './types.js';
+import { ConnectionError } from './error.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEFAULT_SOCKET_PATH = '/tmp/monk.sock';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Open byte-stream connection to a gateway.
+ */
+export interface Connection {
+    /** Write bytes (buffered until the peer can accept them) */
+    write(data: Uint8Array): void;
+
+    /** Close the connection */
+    close(): void;
+}
+
+/**
+ * Callbacks a Connector invokes for an open connection.
+ */
+export interface ConnectionHandlers {
+    /** Bytes received (not aligned to frame boundaries) */
+    data(chunk: Uint8Array): void;
+
+    /** Connection closed by either side */
+    close(): void;
+}
+
+/**
+ * Opens connections to one gateway address.
+ *
+ * Implement this to carry gateway frames over a custom channel.
+ */
+export interface Connector {
+    /** Human-readable address for error messages */
+    readonly address: string;
+
+    /**
+     * Open a connection.
+     *
+     * @throws ConnectionError if the gateway cannot be reached
+     */
+    connect(handlers: ConnectionHandlers): Promise<Connection>;
+}
+
+/**
+ * Socket data stored per Bun socket.
+ */
+export interface SocketData {
+    /** Bytes the kernel did not accept yet (flushed on drain) */
+    backlog: Uint8Array[];
+}
+
+/**
+ * Socket type from Bun.connect.
+ */
+type BunSocket = Bun.Socket<SocketData>;
+
+// =============================================================================
+// BUN SOCKET BACKENDS
+// =============================================================================
+
+/**
+ * Connect a Bun socket (Unix or TCP) and adapt it to Connection.
+ *
+ * With TLS, resolves only after the TLS handshake succeeds.
+ */
+async function connectSocket(
+    target: { unix: string } | { hostname: string; port: number; tls?: boolean | TlsOptions },
+    handlers: ConnectionHandlers,
+): Promise<Connection> {
+    // WHY: Bun.connect resolves as soon as TCP is up; certificate
+    // verification happens later and is only reported to handshake()
+    const secured = Promise.withResolvers<void>();
+
+    // Only awaited for TLS - keep plain sockets from reporting it unhandled
+    secured.promise.catch(() => {});
+
+    const socketHandlers: Bun.SocketHandler<SocketData> = {
+        data: (_socket, data) => {
+            handlers.data(new Uint8Array(data));
+        },
+        drain: (socket) => {
+            writeBuffered(socket);
+        },
+        handshake: (_socket, success, authorizationError) => {
+            if (success) {
+                secured.resolve();
+            }
+            else {
+                secured.reject(new ConnectionError(
+                    'EACCES',
+                    `TLS handshake failed: ${authorizationError?.message ?? 'unauthorized'}`,
+                ));
+            }
+        },
+        close: () => {
+            secured.reject(new ConnectionError('ECONNRESET', 'Connection closed during TLS handshake'));
+            handlers.close();
+        },
+    };
+
+    // WHY: Bun.connect's overloads take TCP or Unix options, not a union of both
+    const connect = Bun.connect as (
+        options: Bun.TCPSocketConnectOptions<SocketData> | Bun.UnixSocketOptions<SocketData>,
+    ) => Promise<BunSocket>;
+
+    let socket: BunSocket;
+
+    try {
+        socket = await connect({ ...target, data: { backlog: [] }, socket: socketHandlers });
+    }
+    catch (err) {
+        throw new ConnectionError('ECONNREFUSED', (err as Error).message);
+    }
+
+    if (!('unix' in target) && target.tls) {
+        try {
+            await secured.promise;
+        }
+        catch (err) {
+            socket.end();
+            throw err;
+        }
+    }
+
+    return {
+        write: (data) => {
+            writeBuffered(socket, data);
+        },
+        close: () => {
+            socket.end();
+        },
+    };
+}
+
+/**
+ * Queue bytes on a Bun socket and write as much of the backlog as the
+ * kernel accepts. Call again without data from the drain handler.
+ *
+ * WHY: Bun sockets do not buffer - a short write drops the rest unless
+ * we keep it and retry on drain.
+ */
+export function writeBuffered<T extends SocketData>(socket: Bun.Socket<T>, data?: Uint8Array): void {
+    const backlog = socket.data.backlog;
+
+    if (data) {
+        backlog.push(data);
+    }
+
+    while (backlog.length > 0) {
+        const chunk = backlog[0];
+        const written = socket.write(chunk);
+
+        if (written < 0) {
+            // Socket closed - close handler takes it from here
+            backlog.length = 0;
+
+            return;
+        }
+
+        if (written < chunk.length) {
+            backlog[0] = chunk.subarray(written);
+
+            return;
+        }
+
+        backlog.shift();
+    }
+}
+
+/**
+ * Unix domain socket backend.
+ */
+export class UnixConnector implements Connector {
+    readonly address: string;
+
+    constructor(readonly path: string) {
+        this.address = `unix://${path}`;
+    }
+
+    connect(handlers: ConnectionHandlers): Promise<Connection> {
+        return connectSocket({ unix: this.path }, handlers);
+    }
+}
+
+/**
+ * TCP socket backend, optionally over TLS.
+ */
+export class TcpConnector implements Connector {
+    readonly address: string;
+
+    constructor(readonly host: string, readonly port: number, readonly tls?: boolean | TlsOptions) {
+        this.address = `${tls ? 'tls' : 'tcp'}://${host}:${port}`;
+    }
+
+    connect(handlers: ConnectionHandlers): Promise<Connection> {
+        return connectSocket({ hostname: this.host, port: this.port, tls: this.tls || undefined }, handlers);
+    }
+}
+
+// =============================================================================
+// WEBSOCKET BACKEND
+// =============================================================================
+
+/**
+ * WebSocket backend.
+ *
+ * Each frame is sent as one binary message. Incoming binary messages are
+ * fed to the frame decoder like socket reads; text messages are ignored.
+ */
+export class WebSocketConnector implements Connector {
+    readonly address: string;
+
+    constructor(readonly url: string) {
+        this.address = url;
+    }
+
+    connect(handlers: ConnectionHandlers): Promise<Connection> {
+        return new Promise((resolve, reject) => {
+            let opened = false;
+            let ws: WebSocket;
+
+            try {
+                ws = new WebSocket(this.url);
+            }
+            catch (err) {
+                reject(new ConnectionError('EINVAL', (err as Error).message));
+
+                return;
+            }
+
+            ws.binaryType = 'arraybuffer';
+
+            ws.onopen = () => {
+                opened = true;
+                resolve({
+                    write: (data) => {
+                        ws.send(data);
+                    },
+                    close: () => {
+                        ws.close();
+                    },
+                });
+            };
+
+            ws.onmessage = (event) => {
+                if (event.data instanceof ArrayBuffer) {
+                    handlers.data(new Uint8Array(event.data));
+                }
+            };
+
+            ws.onerror = () => {
+                if (!opened) {
+                    reject(new ConnectionError('ECONNREFUSED', `WebSocket connection to ${this.url} failed`));
+                }
+            };
+
+            ws.onclose = () => {
+                if (opened) {
+                    handlers.close();
+                }
+                else {
+                    reject(new ConnectionError('ECONNREFUSED', `WebSocket connection to ${this.url} closed`));
+                }
+            };
+        });
+    }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Create a connector from a gateway URL.
+ *
+ * Supported schemes: unix, tcp, tls, ws, wss. TLS settings apply to tcp
+ * and tls URLs (tls:// implies TLS with system CAs if none are given).
+ *
+ * @throws ConnectionError (EINVAL) for malformed or unsupported URLs
+ */
+export function parseGatewayUrl(url: string, tls?: boolean | TlsOptions): Connector {
+    let parsed: URL;
+
+    try {
+        parsed = new URL(url);
+    }
+    catch {
+        throw new ConnectionError('EINVAL', `Invalid gateway URL: ${url}`);
+    }
+
+    switch (parsed.protocol) {
+        case 'unix:': {
+            // unix:///tmp/monk.sock -> /tmp/monk.sock
+            const path = decodeURIComponent(parsed.pathname);
+
+            if (!path) {
+                throw new ConnectionError('EINVAL', `Missing socket path in gateway URL: ${url}`);
+            }
+
+            rejectTls(tls, url);
+
+            return new UnixConnector(path);
+        }
+
+        case 'tcp:':
+        case 'tls:': {
+            if (!parsed.hostname || !parsed.port) {
+                throw new ConnectionError('EINVAL', `Gateway URL needs host and port: ${url}`);
+            }
+
+            const secure = parsed.protocol === 'tls:' ? (tls || true) : tls;
+
+            return new TcpConnector(parsed.hostname, Number(parsed.port), secure);
+        }
+
+        case 'ws:':
+        case 'wss:':
+            rejectTls(tls, url);
+
+            return new WebSocketConnector(url);
+
+        default:
+            throw new ConnectionError('EINVAL', `Unsupported gateway URL scheme: ${parsed.protocol}`);
+    }
+}
+
+/**
+ * Create a connector from connection options.
+ *
+ * Precedence: connector, url, host/port, socketPath, default socket.
+ *
+ * @throws ConnectionError (EINVAL) for invalid addresses
+ */
+export function createConnector(options: ConnectOptions): Connector {
+    if (options.connector) {
+        return options.connector;
+    }
+
+    if (options.url) {
+        return parseGatewayUrl(options.url, options.tls);
+    }
+
+    if (options.host !== undefined || options.port !== undefined) {
+        if (!options.host || !options.port) {
+            throw new ConnectionError('EINVAL', 'TCP connection needs both host and port');
+        }
+
+        return new TcpConnector(options.host, options.port, options.tls);
+    }
+
+    const path = options.socketPath ?? DEFAULT_SOCKET_PATH;
+
+    rejectTls(options.tls, `unix://${path}`);
+
+    return new UnixConnector(path);
+}
+
+/**
+ * Refuse TLS settings for backends that cannot apply them.
+ *
+ * WHY: silently connecting in plaintext when TLS was asked for would be
+ * worse than failing.
+ */
+function rejectTls(tls: boolean | TlsOptions | undefined, address: string): void {
+    if (tls) {
+        throw new ConnectionError('EINVAL', `TLS is only supported for TCP gateways (use wss:// for WebSocket): ${address}`);
+    }
+}
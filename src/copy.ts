@@ -0,0 +1,270 @@
+/**
+ * Copy - Copy and move files and folder trees
+ *
+ * Files are copied by the gateway's file:copy syscall when it has one, so
+ * their bytes never leave the gateway. Otherwise they are streamed through
+ * the client (file:read into file:write), one chunk in memory at a time.
+ *
+ * @module copy
+ */
+
+import { posix } from 'node:path';
+import type { OSClient } from './client.js';
+import type { CopyOptions, MoveOptions, OverwritePolicy, Stat, Timestamps } from './types.js';
+import { FOLDER_MODEL } from './types.js';
+import { SyscallError } from './error.js';
+import { walk, rmrf } from './tree.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * State shared by the file copies of one copy() call.
+ */
+interface CopyContext {
+    options: CopyOptions;
+
+    /** Whether to try file:copy (cleared after the gateway answers ENOSYS) */
+    serverCopy: boolean;
+}
+
+// =============================================================================
+// COPY
+// =============================================================================
+
+/**
+ * Copy a file, or a folder tree when recursive.
+ *
+ * The overwrite policy applies to each file; existing folders are merged
+ * into. Folders are created before their contents and, with
+ * preserveTimestamps, stamped after them.
+ */
+export async function copy(client: OSClient, src: string, dst: string, options: CopyOptions = {}): Promise<void> {
+    rejectOverlap(src, dst, 'copy', 'file:copy');
+
+    const source = await client.stat(src, options);
+    const context: CopyContext = { options, serverCopy: client.supports('file:copy') };
+
+    if (source.model !== FOLDER_MODEL) {
+        await copyFile(client, src, dst, source, context);
+
+        return;
+    }
+
+    if (!options.recursive) {
+        throw new SyscallError('EISDIR', `Cannot copy folder ${src} without recursive`, 'file:copy');
+    }
+
+    const folders: [string, Stat][] = [[dst, source]];
+
+    await ensureFolder(client, dst, options);
+
+    for await (const { path, stat } of walk(client, src, options)) {
+        const target = posix.join(dst, posix.relative(src, path));
+
+        if (stat.model === FOLDER_MODEL) {
+            await ensureFolder(client, target, options);
+            folders.push([target, stat]);
+        }
+        else {
+            await copyFile(client, path, target, stat, context);
+        }
+    }
+
+    if (options.preserveTimestamps) {
+        // WHY: deepest first - creating entries in a folder updates its timestamp
+        for (const [path, stat] of folders.reverse()) {
+            await client.utimes(path, timestampsOf(stat), options);
+        }
+    }
+}
+
+/**
+ * Copy one file, applying the overwrite policy.
+ */
+async function copyFile(client: OSClient, src: string, dst: string, stat: Stat, context: CopyContext): Promise<void> {
+    const { options } = context;
+    const existing = await statIfExists(client, dst, options);
+
+    if (existing?.model === FOLDER_MODEL) {
+        throw new SyscallError('EISDIR', `Cannot overwrite folder ${dst} with a file`, 'file:copy');
+    }
+
+    if (existing && !resolveConflict(options.overwrite, dst, 'file:copy')) {
+        return;
+    }
+
+    if (context.serverCopy) {
+        try {
+            await client.callWith('file:copy', [src, dst, { preserveTimestamps: options.preserveTimestamps ?? false }], options);
+
+            return;
+        }
+        catch (err) {
+            if (!(err instanceof SyscallError && err.code === 'ENOSYS')) {
+                throw err;
+            }
+
+            context.serverCopy = false;
+        }
+    }
+
+    // WHY: progress is reported once, by the write side
+    await client.createReadStream(src, { ...options, onProgress: undefined })
+        .pipeTo(client.createWriteStream(dst, options));
+
+    if (options.preserveTimestamps) {
+        await client.utimes(dst, timestampsOf(stat), options);
+    }
+}
+
+// =============================================================================
+// MOVE
+// =============================================================================
+
+/**
+ * Move a file or folder tree.
+ *
+ * Uses file:rename; when the gateway answers EXDEV (source and destination
+ * on different mounts) the tree is copied and the source removed. The copy
+ * keeps the timestamps if the gateway can set them (file:utimes).
+ *
+ * With overwrite 'replace', an existing destination is renamed aside and
+ * only removed once the move has succeeded; if it fails, it is put back.
+ */
+export async function move(client: OSClient, src: string, dst: string, options: MoveOptions = {}): Promise<void> {
+    rejectOverlap(src, dst, 'move', 'file:rename');
+
+    const source = await client.stat(src, options);
+    const existing = await statIfExists(client, dst, options);
+
+    if (!existing) {
+        await moveTo(client, src, dst, options);
+
+        return;
+    }
+
+    if (!resolveConflict(options.overwrite, dst, 'file:rename')) {
+        return;
+    }
+
+    if (existing.model === FOLDER_MODEL && source.model !== FOLDER_MODEL) {
+        throw new SyscallError('EISDIR', `Cannot overwrite folder ${dst} with a file`, 'file:rename');
+    }
+
+    const aside = posix.join(posix.dirname(dst), `.${posix.basename(dst)}.${Date.now().toString(36)}.replaced`);
+
+    await client.rename(dst, aside, options);
+
+    try {
+        await moveTo(client, src, dst, options);
+    }
+    catch (err) {
+        await client.rename(aside, dst, options);
+
+        throw err;
+    }
+
+    await rmrf(client, aside, options);
+}
+
+/**
+ * Move to a destination that does not exist, copying across mounts.
+ *
+ * A copy that fails part way is removed, so the destination still does
+ * not exist.
+ */
+async function moveTo(client: OSClient, src: string, dst: string, options: MoveOptions): Promise<void> {
+    try {
+        await client.rename(src, dst, options);
+
+        return;
+    }
+    catch (err) {
+        if (!(err instanceof SyscallError && err.code === 'EXDEV')) {
+            throw err;
+        }
+    }
+
+    try {
+        // WHY: timestamps are best-effort - a move must not depend on an optional syscall
+        const preserveTimestamps = client.supports('file:utimes');
+
+        await copy(client, src, dst, { ...options, recursive: true, overwrite: 'error', preserveTimestamps });
+    }
+    catch (err) {
+        await rmrf(client, dst, options);
+
+        throw err;
+    }
+
+    await rmrf(client, src, options);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Apply the overwrite policy to an existing destination.
+ *
+ * @returns true to overwrite, false to skip
+ * @throws SyscallError (EEXIST) for the error policy
+ */
+function resolveConflict(policy: OverwritePolicy | undefined, dst: string, syscall: string): boolean {
+    if ((policy ?? 'error') === 'error') {
+        throw new SyscallError('EEXIST', `Destination exists: ${dst}`, syscall);
+    }
+
+    return policy === 'replace';
+}
+
+/**
+ * Reject copying or moving a path onto itself or into its own subtree.
+ */
+function rejectOverlap(src: string, dst: string, verb: string, syscall: string): void {
+    const from = posix.normalize(src);
+    const to = posix.normalize(dst);
+
+    if (to === from || to.startsWith(from.endsWith('/') ? from : `${from}/`)) {
+        throw new SyscallError('EINVAL', `Cannot ${verb} ${src} onto or into itself`, syscall);
+    }
+}
+
+/**
+ * Create a folder unless one already exists.
+ */
+async function ensureFolder(client: OSClient, path: string, options: CopyOptions): Promise<void> {
+    const existing = await statIfExists(client, path, options);
+
+    if (!existing) {
+        await client.mkdir(path, options);
+    }
+    else if (existing.model !== FOLDER_MODEL) {
+        throw new SyscallError('ENOTDIR', `Cannot merge folder into file ${path}`, 'file:mkdir');
+    }
+}
+
+/**
+ * Stat a path, or undefined if it does not exist.
+ */
+async function statIfExists(client: OSClient, path: string, options: MoveOptions): Promise<Stat | undefined> {
+    try {
+        return await client.stat(path, options);
+    }
+    catch (err) {
+        if (err instanceof SyscallError && err.code === 'ENOENT') {
+            return undefined;
+        }
+
+        throw err;
+    }
+}
+
+/**
+ * Timestamps of a stat, for utimes().
+ */
+function timestampsOf(stat: Stat): Timestamps {
+    return { created_at: stat.created_at, updated_at: stat.updated_at };
+}
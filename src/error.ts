@@ -6,6 +6,7 @@
  * @module error
  */
 
+import { constants } from 'node:os';
 import type { ErrorResponse } from './types.js';
 
 /**
@@ -100,3 +101,81 @@ export class TimeoutError extends Error {
         Object.setPrototypeOf(this, TimeoutError.prototype);
     }
 }
+
+/**
+ * Abort error - thrown when an operation is cancelled through an AbortSignal.
+ */
+export class AbortError extends Error {
+    /**
+     * Reason passed to AbortController.abort() (if any).
+     */
+    readonly reason?: unknown;
+
+    constructor(reason?: unknown) {
+        super(typeof reason === 'string' ? reason : 'Operation aborted');
+        this.name = 'AbortError';
+        this.reason = reason;
+
+        Object.setPrototypeOf(this, AbortError.prototype);
+    }
+}
+
+/**
+ * Filesystem error in the shape node:fs throws - thrown by the fs adapter.
+ *
+ * Carries Node's fields (code, errno, syscall, path, dest) so libraries
+ * written against node:fs/promises handle it unchanged.
+ *
+ * @example
+ * // ENOENT: No such file or directory, open '/etc/missing'
+ * err.code     // 'ENOENT'
+ * err.errno    // -2
+ * err.syscall  // 'open'
+ * err.path     // '/etc/missing'
+ */
+export class FsError extends Error {
+    readonly code: string;
+
+    /**
+     * Negated POSIX error number, as in Node (undefined for unknown codes).
+     */
+    readonly errno?: number;
+
+    /**
+     * Node syscall name (e.g. 'open', 'scandir', 'mkdir').
+     */
+    readonly syscall: string;
+
+    readonly path: string;
+
+    /**
+     * Destination path (rename only).
+     */
+    readonly dest?: string;
+
+    constructor(code: string, description: string, syscall: string, path: string, dest?: string) {
+        const target = dest === undefined ? `'${path}'` : `'${path}' -> '${dest}'`;
+
+        super(`${code}: ${description}, ${syscall} ${target}`);
+        this.name = 'FsError';
+        this.code = code;
+        this.syscall = syscall;
+        this.path = path;
+        this.dest = dest;
+
+        const errno = (constants.errno as Record<string, number>)[code];
+
+        if (errno !== undefined) {
+            this.errno = -errno;
+        }
+
+        Object.setPrototypeOf(this, FsError.prototype);
+    }
+
+    /**
+     * Create FsError from a gateway syscall failure.
+     */
+    static fromSyscallError(err: SyscallError, syscall: string, path: string, dest?: string): FsError {
+        return new FsError(err.code, err.message, syscall, path, dest);
+    }
+}
@@ -0,0 +1,194 @@
+/**
+ * FileStream - Web streams over gateway files
+ *
+ * Adapts the descriptor syscalls (file:open, file:read, file:write,
+ * file:close) to WHATWG streams so large files move through the SDK in
+ * bounded chunks instead of whole-file buffers.
+ *
+ * Reads from a start offset pass the position as a third file:read
+ * argument (requires the gateway's positional feature):
+ *   file:read [fd, size, { position }] -> data... done
+ *
+ * @module file-stream
+ */
+
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import type { OSClient } from './client.js';
+import type { ReadStreamOptions, WriteStreamOptions } from './types.js';
+import { SyscallError } from './error.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Default payload size per file:write frame (64 KiB).
+ */
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Default open flags for write streams.
+ */
+const DEFAULT_WRITE_FLAGS = { write: true, create: true, truncate: true };
+
+// =============================================================================
+// READ STREAMS
+// =============================================================================
+
+/**
+ * Create a ReadableStream of a gateway file's contents.
+ *
+ * Each pull issues one file:read for up to highWaterMark bytes and
+ * enqueues its data frames as they arrive, so a slow consumer stops further
+ * reads instead of buffering the file. A descriptor opened from a path is
+ * closed when the stream ends, is cancelled or errors; a descriptor passed
+ * in stays open.
+ *
+ * @throws SyscallError (ENOSYS) for a start offset if the gateway lacks
+ *         the positional feature
+ */
+export function createReadStream(
+    client: OSClient,
+    source: string | number,
+    options: ReadStreamOptions = {},
+): ReadableStream<Uint8Array> {
+    const { start, end, highWaterMark = DEFAULT_CHUNK_SIZE, onProgress, ...callOptions } = options;
+    const owned = typeof source === 'string';
+    const total = end === undefined ? undefined : end - (start ?? 0) + 1;
+
+    if (start !== undefined && !client.hasFeature('positional')) {
+        throw new SyscallError('ENOSYS', 'Gateway does not support the positional feature needed by file:read', 'file:read');
+    }
+
+    let fd = owned ? undefined : source;
+    let position = start;
+    let done = 0;
+
+    const release = async () => {
+        if (!owned || fd === undefined) {
+            return;
+        }
+
+        const open = fd;
+
+        fd = undefined;
+        await client.fclose(open);
+    };
+
+    return new ReadableStream<Uint8Array>({
+        start: async () => {
+            if (owned) {
+                fd = await client.open(source, { read: true }, callOptions);
+            }
+        },
+        pull: async (controller) => {
+            const size = total === undefined ? highWaterMark : Math.min(highWaterMark, total - done);
+            let received = 0;
+
+            try {
+                if (size > 0) {
+                    const args = position === undefined ? [fd, size] : [fd, size, { position }];
+
+                    for await (const chunk of client.iterateWith<Uint8Array>('file:read', args, callOptions)) {
+                        received += chunk.length;
+                        controller.enqueue(chunk);
+                    }
+                }
+
+                // Short reads are fine; an empty read is end of file
+                if (received === 0) {
+                    await release();
+                    controller.close();
+
+                    return;
+                }
+            }
+            catch (err) {
+                // WHY: an errored stream never calls cancel(), so release here
+                await release().catch(() => {});
+                throw err;
+            }
+
+            done += received;
+
+            if (position !== undefined) {
+                position += received;
+            }
+
+            onProgress?.({ done, total, unit: 'bytes' });
+        },
+        cancel: async () => {
+            await release().catch(() => {});
+        },
+    }, new ByteLengthQueuingStrategy({ highWaterMark }));
+}
+
+/**
+ * Adapt a web ReadableStream to a Node Readable.
+ */
+export function toNodeReadable(stream: ReadableStream<Uint8Array>): Readable {
+    // WHY: DOM and node:stream/web declare separate ReadableStream types
+    // for the same runtime class
+    return Readable.fromWeb(stream as unknown as NodeReadableStream<Uint8Array>);
+}
+
+// =============================================================================
+// WRITE STREAMS
+// =============================================================================
+
+/**
+ * Create a WritableStream that writes to a gateway file.
+ *
+ * Each chunk is split into file:write frames of at most chunkSize bytes,
+ * and each frame waits for the gateway's ack before the next is sent. The
+ * stream's queue holds up to chunkSize bytes, so producers that await
+ * writer.ready (or pipeTo) are throttled to the gateway's pace.
+ *
+ * The descriptor is closed when the stream closes, aborts or errors.
+ */
+export function createWriteStream(
+    client: OSClient,
+    path: string,
+    options: WriteStreamOptions = {},
+): WritableStream<Uint8Array> {
+    const { flags = DEFAULT_WRITE_FLAGS, chunkSize = DEFAULT_CHUNK_SIZE, onProgress, ...callOptions } = options;
+    let fd: number | undefined;
+    let done = 0;
+
+    // Close the descriptor once, whichever way the stream ends
+    const release = async () => {
+        if (fd === undefined) {
+            return;
+        }
+
+        const open = fd;
+
+        fd = undefined;
+        await client.fclose(open);
+    };
+
+    return new WritableStream<Uint8Array>({
+        start: async () => {
+            fd = await client.open(path, flags, callOptions);
+        },
+        write: async (chunk) => {
+            try {
+                await client.writeAll(fd!, chunk, { ...callOptions, chunkSize });
+            }
+            catch (err) {
+                // WHY: a rejected write errors the stream without calling
+                // close() or abort(), so release the descriptor here
+                await release().catch(() => {});
+                throw err;
+            }
+
+            done += chunk.length;
+            onProgress?.({ done, unit: 'bytes' });
+        },
+        close: release,
+        abort: async () => {
+            await release().catch(() => {});
+        },
+    }, new ByteLengthQueuingStrategy({ highWaterMark: chunkSize }));
+}
@@ -0,0 +1,92 @@
+/**
+ * Frame - Length-prefixed MessagePack framing
+ *
+ * Every message on the wire is a 4-byte big-endian payload length followed
+ * by the MessagePack-encoded payload. Shared by the client transport and
+ * the mock gateway so both sides always agree on the format.
+ *
+ * @module frame
+ */
+
+import { pack, unpack } from 'msgpackr';
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * Encode a message as a length-prefixed msgpack frame.
+ */
+export function encodeFrame(message: unknown): Uint8Array {
+    const payload = pack(message);
+    const frame = new Uint8Array(4 + payload.length);
+    const view = new DataView(frame.buffer);
+
+    view.setUint32(0, payload.length);
+    frame.set(payload, 4);
+
+    return frame;
+}
+
+// =============================================================================
+// DECODING
+// =============================================================================
+
+/**
+ * Incremental frame decoder.
+ *
+ * Socket reads do not respect frame boundaries, so bytes are buffered until
+ * a complete frame is available.
+ *
+ * @example
+ * const decoder = new FrameDecoder();
+ *
+ * for (const message of decoder.push(chunk)) {
+ *     handle(message);
+ * }
+ */
+export class FrameDecoder {
+    /** Bytes received but not yet decoded */
+    private buffer = new Uint8Array(0);
+
+    /**
+     * Append received bytes and return all complete messages.
+     *
+     * Frames with invalid msgpack payloads are skipped.
+     */
+    push(data: Uint8Array): unknown[] {
+        // Append to binary buffer
+        const newBuffer = new Uint8Array(this.buffer.length + data.length);
+
+        newBuffer.set(this.buffer);
+        newBuffer.set(data, this.buffer.length);
+        this.buffer = newBuffer;
+
+        const messages: unknown[] = [];
+
+        // Process complete messages (4-byte length prefix + payload)
+        while (this.buffer.length >= 4) {
+            const view = new DataView(this.buffer.buffer, this.buffer.byteOffset);
+            const msgLength = view.getUint32(0);
+
+            // Wait for complete message
+            if (this.buffer.length < 4 + msgLength) {
+                break;
+            }
+
+            // Extract and decode message
+            const payload = this.buffer.slice(4, 4 + msgLength);
+
+            this.buffer = this.buffer.slice(4 + msgLength);
+
+            try {
+                messages.push(unpack(payload));
+            }
+            catch {
+                // Invalid msgpack - ignore
+            }
+        }
+
+        return messages;
+    }
+}
@@ -0,0 +1,392 @@
+/**
+ * Fs Adapter - node:fs/promises-compatible view of gateway storage
+ *
+ * Implements the commonly used subset of node:fs/promises on top of
+ * OSClient syscalls, so bundlers, template engines and other libraries
+ * that accept an `fs`-like object can read and write Monk OS storage.
+ *
+ * Gateway failures are rethrown as FsError, which carries Node's code,
+ * errno, syscall and path fields. Connection, timeout and abort errors
+ * pass through unchanged.
+ *
+ * @module fs-adapter
+ */
+
+import { fileURLToPath } from 'node:url';
+import type { OSClient } from './client.js';
+import type { DirEntry, Stat } from './types.js';
+import { FOLDER_MODEL } from './types.js';
+import { SyscallError, FsError } from './error.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Path argument: an absolute gateway path or a file: URL.
+ */
+export type FsPath = string | URL;
+
+/**
+ * Text encoding accepted by readFile() and writeFile().
+ */
+export type FsEncoding = BufferEncoding;
+
+/**
+ * Options for readFile().
+ */
+export interface FsReadFileOptions {
+    /** Return a string in this encoding instead of a Buffer */
+    encoding?: FsEncoding | null;
+
+    /** Abort the read */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for writeFile().
+ */
+export interface FsWriteFileOptions {
+    /** Encoding of string data (default: utf8) */
+    encoding?: FsEncoding | null;
+
+    /** Abort the write */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for readdir().
+ */
+export interface FsReaddirOptions {
+    /** Return FsDirent objects instead of names */
+    withFileTypes?: boolean;
+}
+
+/**
+ * Options for mkdir().
+ */
+export interface FsMkdirOptions {
+    /** Create missing parents; an existing directory is not an error */
+    recursive?: boolean;
+}
+
+/**
+ * Options for rm().
+ */
+export interface FsRmOptions {
+    /** Remove directories and their contents */
+    recursive?: boolean;
+
+    /** Ignore missing paths */
+    force?: boolean;
+}
+
+/**
+ * The node:fs/promises subset implemented by createFsAdapter().
+ */
+export interface FsAdapter {
+    readFile(path: FsPath, options?: FsEncoding | FsReadFileOptions): Promise<Buffer | string>;
+    writeFile(path: FsPath, data: string | Uint8Array, options?: FsEncoding | FsWriteFileOptions): Promise<void>;
+    stat(path: FsPath): Promise<FsStats>;
+    readdir(path: FsPath, options?: FsReaddirOptions): Promise<string[] | FsDirent[]>;
+    mkdir(path: FsPath, options?: FsMkdirOptions): Promise<string | undefined>;
+    rm(path: FsPath, options?: FsRmOptions): Promise<void>;
+    rename(oldPath: FsPath, newPath: FsPath): Promise<void>;
+    access(path: FsPath, mode?: number): Promise<void>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** st_mode for directories (drwxr-xr-x) */
+const DIRECTORY_MODE = 0o040755;
+
+/** st_mode for regular files (-rw-r--r--) */
+const FILE_MODE = 0o100644;
+
+// =============================================================================
+// STATS AND DIRENT
+// =============================================================================
+
+/**
+ * fs.Stats-like view of a gateway Stat.
+ *
+ * The gateway tracks no owners, permissions or access times: uid/gid are
+ * 0, mode is a fixed 755/644, and atime equals mtime.
+ */
+export class FsStats {
+    readonly dev = 0;
+    readonly ino = 0;
+    readonly mode: number;
+    readonly nlink = 1;
+    readonly uid = 0;
+    readonly gid = 0;
+    readonly rdev = 0;
+    readonly size: number;
+    readonly blksize = 4096;
+    readonly blocks: number;
+    readonly atimeMs: number;
+    readonly mtimeMs: number;
+    readonly ctimeMs: number;
+    readonly birthtimeMs: number;
+    readonly atime: Date;
+    readonly mtime: Date;
+    readonly ctime: Date;
+    readonly birthtime: Date;
+
+    constructor(private readonly stat: Stat) {
+        this.mode = stat.model === FOLDER_MODEL ? DIRECTORY_MODE : FILE_MODE;
+        this.size = stat.size ?? 0;
+        this.blocks = Math.ceil(this.size / 512);
+        this.birthtimeMs = Date.parse(stat.created_at) || 0;
+        this.mtimeMs = Date.parse(stat.updated_at) || this.birthtimeMs;
+        this.atimeMs = this.mtimeMs;
+        this.ctimeMs = this.mtimeMs;
+        this.atime = new Date(this.atimeMs);
+        this.mtime = new Date(this.mtimeMs);
+        this.ctime = new Date(this.ctimeMs);
+        this.birthtime = new Date(this.birthtimeMs);
+    }
+
+    isFile(): boolean {
+        return this.stat.model !== FOLDER_MODEL;
+    }
+
+    isDirectory(): boolean {
+        return this.stat.model === FOLDER_MODEL;
+    }
+
+    isSymbolicLink(): boolean {
+        return false;
+    }
+
+    isBlockDevice(): boolean {
+        return false;
+    }
+
+    isCharacterDevice(): boolean {
+        return false;
+    }
+
+    isFIFO(): boolean {
+        return false;
+    }
+
+    isSocket(): boolean {
+        return false;
+    }
+}
+
+/**
+ * fs.Dirent-like directory entry.
+ */
+export class FsDirent {
+    readonly name: string;
+
+    /** Directory containing the entry */
+    readonly parentPath: string;
+
+    constructor(private readonly entry: DirEntry, parentPath: string) {
+        this.name = entry.name;
+        this.parentPath = parentPath;
+    }
+
+    /**
+     * Alias of parentPath (deprecated in Node).
+     */
+    get path(): string {
+        return this.parentPath;
+    }
+
+    isFile(): boolean {
+        return this.entry.model !== FOLDER_MODEL;
+    }
+
+    isDirectory(): boolean {
+        return this.entry.model === FOLDER_MODEL;
+    }
+
+    isSymbolicLink(): boolean {
+        return false;
+    }
+
+    isBlockDevice(): boolean {
+        return false;
+    }
+
+    isCharacterDevice(): boolean {
+        return false;
+    }
+
+    isFIFO(): boolean {
+        return false;
+    }
+
+    isSocket(): boolean {
+        return false;
+    }
+}
+
+// =============================================================================
+// ADAPTER
+// =============================================================================
+
+/**
+ * Create a node:fs/promises-compatible adapter over a connected client.
+ *
+ * @example
+ * const fs = createFsAdapter(client);
+ *
+ * const config = await fs.readFile('/app/config.json', 'utf8');
+ * await fs.mkdir('/app/cache/templates', { recursive: true });
+ *
+ * for (const entry of await fs.readdir('/app', { withFileTypes: true })) {
+ *     console.log(entry.name, entry.isDirectory());
+ * }
+ */
+export function createFsAdapter(client: OSClient): FsAdapter {
+    // WHY: an object of closures rather than a class - callers destructure
+    // fs/promises functions (`const { readFile } = fs`), which would lose
+    // `this` on methods
+
+    async function readFile(path: FsPath, options?: FsEncoding | FsReadFileOptions): Promise<Buffer | string> {
+        const target = toPath(path);
+        const { encoding, signal } = normalizeOptions(options);
+        const data = await fsCall('open', target, () => client.readFile(target, { signal }));
+        const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+        return encoding ? buffer.toString(encoding) : buffer;
+    }
+
+    async function writeFile(
+        path: FsPath,
+        data: string | Uint8Array,
+        options?: FsEncoding | FsWriteFileOptions,
+    ): Promise<void> {
+        const target = toPath(path);
+        const { encoding, signal } = normalizeOptions(options);
+        const bytes = typeof data === 'string' ? Buffer.from(data, encoding ?? 'utf8') : data;
+
+        await fsCall('open', target, () => client.writeFile(target, bytes, { signal }));
+    }
+
+    async function stat(path: FsPath): Promise<FsStats> {
+        const target = toPath(path);
+
+        return new FsStats(await fsCall('stat', target, () => client.stat(target)));
+    }
+
+    async function readdir(path: FsPath, options?: FsReaddirOptions): Promise<string[] | FsDirent[]> {
+        const target = toPath(path);
+        const entries = await fsCall('scandir', target, () => client.readdirSync(target));
+
+        if (options?.withFileTypes) {
+            return entries.map(entry => new FsDirent(entry, target));
+        }
+
+        return entries.map(entry => entry.name);
+    }
+
+    async function mkdir(path: FsPath, options?: FsMkdirOptions): Promise<string | undefined> {
+        const target = toPath(path);
+
+        if (!options?.recursive) {
+            await fsCall('mkdir', target, () => client.mkdir(target));
+
+            return undefined;
+        }
+
+        return fsCall('mkdir', target, () => client.mkdirp(target));
+    }
+
+    async function rm(path: FsPath, options?: FsRmOptions): Promise<void> {
+        const target = toPath(path);
+        let info: Stat;
+
+        try {
+            info = await fsCall('rm', target, () => client.stat(target));
+        }
+        catch (err) {
+            if (options?.force && err instanceof FsError && err.code === 'ENOENT') {
+                return;
+            }
+
+            throw err;
+        }
+
+        if (info.model !== FOLDER_MODEL) {
+            await fsCall('rm', target, () => client.unlink(target));
+
+            return;
+        }
+
+        // As in Node: refuse directories unless recursive
+        if (!options?.recursive) {
+            throw new FsError('EISDIR', 'Path is a directory', 'rm', target);
+        }
+
+        await fsCall('rm', target, () => client.rmrf(target));
+    }
+
+    async function rename(oldPath: FsPath, newPath: FsPath): Promise<void> {
+        const from = toPath(oldPath);
+        const to = toPath(newPath);
+
+        await fsCall('rename', from, () => client.rename(from, to), to);
+    }
+
+    /**
+     * Check that path exists.
+     *
+     * The gateway exposes no permission bits, so mode is accepted for
+     * compatibility but only existence (F_OK) is checked.
+     */
+    async function access(path: FsPath, _mode?: number): Promise<void> {
+        const target = toPath(path);
+
+        await fsCall('access', target, () => client.stat(target));
+    }
+
+    return { readFile, writeFile, stat, readdir, mkdir, rm, rename, access };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Run a gateway call, rethrowing syscall failures as FsError.
+ */
+async function fsCall<T>(syscall: string, path: string, fn: () => Promise<T>, dest?: string): Promise<T> {
+    try {
+        return await fn();
+    }
+    catch (err) {
+        if (err instanceof SyscallError) {
+            throw FsError.fromSyscallError(err, syscall, path, dest);
+        }
+
+        throw err;
+    }
+}
+
+/**
+ * Convert a path argument to a gateway path string.
+ */
+function toPath(path: FsPath): string {
+    return path instanceof URL ? fileURLToPath(path) : path;
+}
+
+/**
+ * Normalize the encoding-or-options argument of readFile/writeFile.
+ */
+function normalizeOptions(
+    options?: FsEncoding | { encoding?: FsEncoding | null; signal?: AbortSignal },
+): { encoding?: FsEncoding; signal?: AbortSignal } {
+    if (typeof options === 'string') {
+        return { encoding: options };
+    }
+
+    return { encoding: options?.encoding ?? undefined, signal: options?.signal };
+}
@@ -0,0 +1,228 @@
+/**
+ * FileHandle - Object wrapper for an open gateway file descriptor
+ *
+ * Binds the descriptor syscalls to one fd and closes it exactly once,
+ * either explicitly, through `await using`, or when the owning client
+ * closes.
+ *
+ * @module handle
+ */
+
+import type { OSClient } from './client.js';
+import type { CallOptions, ReadStreamOptions, Stat, Whence, WriteOptions } from './types.js';
+import { SyscallError } from './error.js';
+
+// =============================================================================
+// FILE HANDLE CLASS
+// =============================================================================
+
+/**
+ * Open file returned by OSClient.openHandle().
+ *
+ * @example
+ * await using handle = await client.openHandle('/var/log/app.log', { read: true });
+ *
+ * for await (const line of handle.readLines()) {
+ *     console.log(line);
+ * }
+ * // closed here, even if the loop throws
+ */
+export class FileHandle implements AsyncDisposable {
+    /** Whether the descriptor has been closed (or the client closed) */
+    private isClosed = false;
+
+    /** file:close in flight, shared by concurrent close() calls */
+    private closing: Promise<void> | undefined;
+
+    constructor(
+        private readonly client: OSClient,
+        readonly fd: number,
+        readonly path: string,
+        private readonly onClose: (handle: FileHandle) => void,
+    ) {}
+
+    /**
+     * Check whether the handle is closed.
+     */
+    get closed(): boolean {
+        return this.isClosed;
+    }
+
+    // =========================================================================
+    // I/O
+    // =========================================================================
+
+    /**
+     * Read up to size bytes from the current position (default: to end).
+     */
+    async read(size?: number, options?: CallOptions): Promise<Uint8Array> {
+        this.ensureOpen('file:read');
+
+        return this.client.read(this.fd, size, options);
+    }
+
+    /**
+     * Write all data at the current position, in bounded chunks.
+     *
+     * @returns Number of bytes written
+     */
+    async write(data: Uint8Array | string, options?: WriteOptions): Promise<number> {
+        this.ensureOpen('file:write');
+
+        return this.client.writeAll(this.fd, data, options);
+    }
+
+    /**
+     * Read at an offset without moving the position.
+     */
+    async pread(offset: number, length: number, options?: CallOptions): Promise<Uint8Array> {
+        this.ensureOpen('file:read');
+
+        return this.client.pread(this.fd, offset, length, options);
+    }
+
+    /**
+     * Write at an offset without moving the position.
+     *
+     * @returns Number of bytes written
+     */
+    async pwrite(offset: number, data: Uint8Array | string, options?: CallOptions): Promise<number> {
+        this.ensureOpen('file:write');
+
+        return this.client.pwrite(this.fd, offset, data, options);
+    }
+
+    /**
+     * Move the file position.
+     *
+     * @returns New position from the start of the file
+     */
+    async seek(offset: number, whence: Whence = 'set', options?: CallOptions): Promise<number> {
+        this.ensureOpen('file:seek');
+
+        return this.client.seek(this.fd, offset, whence, options);
+    }
+
+    /**
+     * Truncate (or zero-extend) the file to length bytes.
+     */
+    async truncate(length = 0, options?: CallOptions): Promise<void> {
+        this.ensureOpen('file:ftruncate');
+
+        await this.client.ftruncate(this.fd, length, options);
+    }
+
+    /**
+     * Get file stats.
+     */
+    async stat(options?: CallOptions): Promise<Stat> {
+        this.ensureOpen('file:fstat');
+
+        return this.client.fstat(this.fd, options);
+    }
+
+    /**
+     * Stream the file from the current position (or a start offset).
+     *
+     * The handle stays open when the stream ends.
+     */
+    createReadStream(options?: ReadStreamOptions): ReadableStream<Uint8Array> {
+        this.ensureOpen('file:read');
+
+        return this.client.createReadStream(this.fd, options);
+    }
+
+    /**
+     * Iterate lines of UTF-8 text from the current position.
+     *
+     * Lines are yielded without their terminator (\n or \r\n). Reads are
+     * streamed, so large files are never held in memory whole.
+     */
+    async *readLines(options?: CallOptions): AsyncIterable<string> {
+        this.ensureOpen('file:read');
+
+        const decoder = new TextDecoder();
+        let pending = '';
+
+        for await (const chunk of this.client.createReadStream(this.fd, options)) {
+            pending += decoder.decode(chunk, { stream: true });
+
+            const lines = pending.split('\n');
+
+            pending = lines.pop()!;
+
+            for (const line of lines) {
+                yield stripCarriageReturn(line);
+            }
+        }
+
+        pending += decoder.decode();
+
+        if (pending) {
+            yield stripCarriageReturn(pending);
+        }
+    }
+
+    // =========================================================================
+    // LIFECYCLE
+    // =========================================================================
+
+    /**
+     * Close the descriptor. Further calls do nothing.
+     *
+     * If file:close fails (abort, timeout, disconnect) the handle stays
+     * open, so close() can be retried and OSClient.close() still closes it.
+     */
+    async close(options?: CallOptions): Promise<void> {
+        if (this.isClosed) {
+            return;
+        }
+
+        this.closing ??= this.client.fclose(this.fd, options)
+            .then(() => this.detach())
+            .finally(() => {
+                this.closing = undefined;
+            });
+
+        await this.closing;
+    }
+
+    /**
+     * Close the descriptor (for `await using`).
+     */
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this.close();
+    }
+
+    /**
+     * Mark the handle closed without telling the gateway.
+     *
+     * @internal Used by OSClient.close(), which closes the fd itself.
+     */
+    detach(): void {
+        this.isClosed = true;
+        this.onClose(this);
+    }
+
+    /**
+     * Reject operations on a closed handle.
+     *
+     * @throws SyscallError (EBADF)
+     */
+    private ensureOpen(syscall: string): void {
+        if (this.isClosed) {
+            throw new SyscallError('EBADF', `File handle for ${this.path} is closed`, syscall);
+        }
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Drop the \r of a \r\n line terminator.
+ */
+function stripCarriageReturn(line: string): string {
+    return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
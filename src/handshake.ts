@@ -0,0 +1,155 @@
+/**
+ * Handshake - Connection setup exchange with the gateway
+ *
+ * Runs on every new connection (including reconnects) before the transport
+ * accepts requests: authentication first (if configured), then hello.
+ *
+ * Authentication wire protocol:
+ * - token:  sys:auth [{ scheme: 'token', token }]            -> ok | error
+ * - secret: sys:challenge []                                   -> ok { nonce }
+ *           sys:auth [{ scheme: 'hmac', digest: hmac(nonce) }] -> ok | error
+ *
+ * Hello wire protocol:
+ *   sys:hello [{ protocol }] -> ok { protocol, version, syscalls, features }
+ *   Gateways predating hello answer an error (usually ENOSYS); their
+ *   capabilities are unknown. So is a list a hello reply leaves out.
+ *
+ * @module handshake
+ */
+
+import { createHmac } from 'node:crypto';
+import type { AuthOptions, Capabilities, OkResponse, Response } from './types.js';
+import { isError, isOk } from './types.js';
+import { ConnectionError } from './error.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Protocol version this SDK speaks.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Protocol features this SDK can use.
+ *
+ * - binary: file:write accepts raw binary payloads
+ * - positional: file:read/file:write accept a position (pread/pwrite)
+ */
+export const PROTOCOL_FEATURES: readonly string[] = ['binary', 'positional'];
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Send one handshake request and return its terminal response.
+ */
+export type Exchange = (call: string, args: unknown[]) => Promise<Response>;
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+/**
+ * Authenticate the connection.
+ *
+ * @throws ConnectionError (EACCES) if the gateway rejects the credentials
+ * @throws ConnectionError (EPROTO) if the gateway answers unexpectedly
+ */
+export async function authenticate(exchange: Exchange, auth: AuthOptions): Promise<void> {
+    if ('token' in auth) {
+        expectOk(await exchange('sys:auth', [{ scheme: 'token', token: auth.token }]));
+
+        return;
+    }
+
+    const challenge = expectOk(await exchange('sys:challenge', []));
+    const nonce = challenge.data?.nonce;
+
+    if (typeof nonce !== 'string') {
+        throw new ConnectionError('EPROTO', 'Gateway sent an invalid auth challenge');
+    }
+
+    expectOk(await exchange('sys:auth', [{ scheme: 'hmac', digest: signChallenge(auth.secret, nonce) }]));
+}
+
+/**
+ * Answer an auth challenge: hex HMAC-SHA256 of the nonce keyed by the secret.
+ */
+export function signChallenge(secret: string, nonce: string): string {
+    return createHmac('sha256', secret).update(nonce).digest('hex');
+}
+
+// =============================================================================
+// HELLO
+// =============================================================================
+
+/**
+ * Exchange protocol versions and learn the gateway's capabilities.
+ *
+ * @returns Capabilities, or undefined for gateways predating sys:hello
+ * @throws ConnectionError (EACCES) if the gateway requires authentication
+ * @throws ConnectionError (EPROTO) if the gateway speaks another protocol
+ */
+export async function hello(exchange: Exchange): Promise<Capabilities | undefined> {
+    const response = await exchange('sys:hello', [{ protocol: PROTOCOL_VERSION }]);
+
+    if (isError(response)) {
+        if (response.code === 'EACCES') {
+            throw new ConnectionError('EACCES', `Gateway requires authentication: ${response.message}`);
+        }
+
+        // WHY: gateways predating hello answer unknown sys:* calls with
+        // ENOSYS, EINVAL or worse - none of which should make them unusable
+        return undefined;
+    }
+
+    if (!isOk(response)) {
+        throw new ConnectionError('EPROTO', `Unexpected handshake response op: ${response.op}`);
+    }
+
+    const data = response.data ?? {};
+
+    if (data.protocol !== PROTOCOL_VERSION) {
+        throw new ConnectionError(
+            'EPROTO',
+            `Unsupported gateway protocol version ${String(data.protocol)} (client speaks ${PROTOCOL_VERSION})`,
+        );
+    }
+
+    return {
+        protocol: PROTOCOL_VERSION,
+        version: typeof data.version === 'string' ? data.version : undefined,
+        syscalls: stringList(data.syscalls),
+        features: stringList(data.features),
+    };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Keep the string entries of a list from the wire (undefined if there is
+ * no list, meaning unknown).
+ */
+function stringList(value: unknown): string[] | undefined {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+}
+
+/**
+ * Require an ok response, mapping gateway errors to EACCES.
+ */
+function expectOk(response: Response): OkResponse {
+    if (isError(response)) {
+        throw new ConnectionError('EACCES', `Authentication failed: ${response.message}`);
+    }
+
+    if (!isOk(response)) {
+        throw new ConnectionError('EPROTO', `Unexpected handshake response op: ${response.op}`);
+    }
+
+    return response;
+}
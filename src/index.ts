@@ -6,6 +6,7 @@
  *
  * const client = new OSClient();
  * await client.connect({ socketPath: '/tmp/monk.sock' });
+ * // or: await client.connect('tcp://gateway:7000');
  *
  * // File operations
  * const stat = await client.stat('/etc');
@@ -28,8 +29,46 @@ export { OSClient } from './client.js';
 // Transport (for advanced use)
 export { Transport } from './transport.js';
 
+// Connection backends
+export {
+    UnixConnector,
+    TcpConnector,
+    WebSocketConnector,
+    createConnector,
+    parseGatewayUrl,
+} from './connector.js';
+export type { Connector, Connection, ConnectionHandlers } from './connector.js';
+
+// Protocol
+export { PROTOCOL_VERSION, PROTOCOL_FEATURES } from './handshake.js';
+export { DEFAULT_MAX_REDIRECTS } from './redirect.js';
+
+// Files
+export { FileHandle } from './handle.js';
+export { FileLock, LOCK_SUFFIX } from './lock.js';
+export { DEFAULT_CONCURRENCY, expandBraces } from './tree.js';
+export { DEFAULT_WATCH_INTERVAL } from './watch.js';
+export { createFsAdapter, FsStats, FsDirent } from './fs-adapter.js';
+export type {
+    FsAdapter,
+    FsPath,
+    FsEncoding,
+    FsReadFileOptions,
+    FsWriteFileOptions,
+    FsReaddirOptions,
+    FsMkdirOptions,
+    FsRmOptions,
+} from './fs-adapter.js';
+
+// Processes
+export { Process } from './process.js';
+export { SIGNAL_EVENT } from './signal.js';
+
+// Streams
+export { DEFAULT_CHUNK_SIZE } from './file-stream.js';
+
 // Errors
-export { SyscallError, ConnectionError, TimeoutError } from './error.js';
+export { SyscallError, ConnectionError, TimeoutError, AbortError, FsError } from './error.js';
 
 // Types
 export type {
@@ -46,18 +85,64 @@ export type {
     DataResponse,
     EventResponse,
     ProgressResponse,
+    RedirectData,
+    EventData,
+    ProgressData,
 
     // Connection
     ConnectOptions,
+    GatewayOptions,
     ConnectionState,
+    ReconnectOptions,
+    TlsOptions,
+    AuthOptions,
+    RequestOptions,
+    CallOptions,
+    ReadStreamOptions,
+    WriteOptions,
+    WriteStreamOptions,
+    TreeOptions,
+    WalkOptions,
+    GlobOptions,
+    CopyOptions,
+    MoveOptions,
+    OverwritePolicy,
+    SyncOptions,
+    SyncChange,
+    SyncResult,
+    WatchOptions,
+    LockOptions,
+    Capabilities,
 
     // Syscall types
     Stat,
     DirEntry,
+    WalkEntry,
+    Timestamps,
+    WatchEvent,
+    WatchEventType,
     OpenFlags,
+    Whence,
+    SessionOptions,
     SpawnOptions,
+    StdioMode,
+    StdioOptions,
+    StdioStream,
+    ExecOptions,
+    ExecResult,
+    ExitStatus,
+    ProcessStatus,
+    ProcessState,
+    ProcessInfo,
+    ProcessTree,
+    PsOptions,
+    SignalHandler,
+    SignalOptions,
     SelectOptions,
 } from './types.js';
 
 // Type guards
-export { isTerminal, isError, isOk, isItem, isData } from './types.js';
+export { isTerminal, isError, isOk, isItem, isData, isRedirect, isEvent, isProgress } from './types.js';
+
+// Constants
+export { FOLDER_MODEL, Signal } from './types.js';
@@ -0,0 +1,267 @@
+/**
+ * Lock - Advisory file locks
+ *
+ * Gateways that implement file:flock lock an open descriptor, and the lock
+ * lasts until the descriptor is closed - by release(), by `await using`,
+ * or by the gateway when the connection drops.
+ *
+ * Elsewhere a lock is emulated with a lock entity next to the file
+ * (`<path>.lock`), created with file:open's create and exclusive flags so
+ * only one client can create it. Emulated locks are always exclusive, and
+ * one left behind by a client that vanished must be removed by hand.
+ *
+ * Advisory: only clients that lock respect the lock.
+ *
+ * @module lock
+ */
+
+import { hostname } from 'node:os';
+import type { OSClient } from './client.js';
+import type { CallOptions, LockOptions } from './types.js';
+import { SyscallError, TimeoutError } from './error.js';
+import type { FileHandle } from './handle.js';
+import { delay } from './timers.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Suffix of emulated lock entities.
+ */
+export const LOCK_SUFFIX = '.lock';
+
+/**
+ * Syscall that locks a descriptor.
+ */
+const FLOCK_SYSCALL = 'file:flock';
+
+/**
+ * First and longest wait between lock() attempts, in ms.
+ */
+const RETRY_MIN = 25;
+const RETRY_MAX = 1000;
+
+// =============================================================================
+// FILE LOCK CLASS
+// =============================================================================
+
+/**
+ * Lock held by this client, returned by OSClient.lock() and tryLock().
+ *
+ * @example
+ * await using lock = await client.lock('/app/config.json', { timeout: 5000 });
+ *
+ * const config = JSON.parse(new TextDecoder().decode(await client.readFile('/app/config.json')));
+ * await client.writeFile('/app/config.json', JSON.stringify({ ...config, enabled: true }));
+ * // released here, even if the update throws
+ */
+export class FileLock implements AsyncDisposable {
+    /** Whether the lock has been released (or the client closed) */
+    private isReleased = false;
+
+    /** Release in flight, shared by concurrent release() calls */
+    private releasing: Promise<void> | undefined;
+
+    constructor(
+        private readonly client: OSClient,
+        private readonly handle: FileHandle,
+        readonly path: string,
+        readonly exclusive: boolean,
+        /** Lock entity of an emulated lock (undefined for file:flock locks) */
+        readonly lockPath: string | undefined,
+        private readonly onRelease: (lock: FileLock) => void,
+    ) {}
+
+    /**
+     * Check whether the lock has been released.
+     */
+    get released(): boolean {
+        return this.isReleased;
+    }
+
+    /**
+     * Release the lock. Safe to call more than once.
+     *
+     * If releasing fails (abort, timeout, disconnect) the lock stays held,
+     * so release() can be retried and OSClient.close() still releases it.
+     */
+    async release(options?: CallOptions): Promise<void> {
+        if (this.isReleased) {
+            return;
+        }
+
+        this.releasing ??= this.unlock(options).finally(() => {
+            this.releasing = undefined;
+        });
+
+        await this.releasing;
+    }
+
+    /**
+     * Release the lock at the end of an `await using` block.
+     */
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this.release();
+    }
+
+    /**
+     * Close the descriptor and remove the lock entity, then forget the lock.
+     */
+    private async unlock(options?: CallOptions): Promise<void> {
+        await this.handle.close(options);
+
+        if (this.lockPath !== undefined) {
+            await removeLockEntity(this.client, this.lockPath, options);
+        }
+
+        this.isReleased = true;
+        this.onRelease(this);
+    }
+
+    /**
+     * Mark the lock released without telling the gateway.
+     *
+     * @internal Used by OSClient.close(), which releases the lock itself.
+     */
+    detach(): void {
+        this.isReleased = true;
+    }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Acquire a lock, waiting for conflicting locks to be released.
+ *
+ * Attempts are retried with backoff (25ms doubling to 1s).
+ *
+ * @throws TimeoutError if options.timeout passes first
+ * @throws AbortError if the signal is aborted
+ */
+export async function lock(
+    client: OSClient,
+    path: string,
+    options: LockOptions,
+    onRelease: (lock: FileLock) => void,
+): Promise<FileLock> {
+    const deadline = options.timeout === undefined ? Infinity : Date.now() + options.timeout;
+    let wait = RETRY_MIN;
+
+    while (true) {
+        const held = await tryLock(client, path, options, onRelease);
+
+        if (held) {
+            return held;
+        }
+
+        const remaining = deadline - Date.now();
+
+        if (remaining <= 0) {
+            throw new TimeoutError(`Lock on ${path} not acquired within ${options.timeout}ms`);
+        }
+
+        await delay(Math.min(wait, remaining), options.signal);
+        wait = Math.min(wait * 2, RETRY_MAX);
+    }
+}
+
+/**
+ * Acquire a lock if no conflicting lock is held.
+ *
+ * @returns The lock, or undefined if it is held elsewhere
+ */
+export async function tryLock(
+    client: OSClient,
+    path: string,
+    options: LockOptions,
+    onRelease: (lock: FileLock) => void,
+): Promise<FileLock | undefined> {
+    const exclusive = options.exclusive ?? true;
+
+    // WHY: options.timeout bounds the whole wait in lock(), not each request
+    const callOptions: CallOptions = { signal: options.signal, maxRedirects: options.maxRedirects };
+
+    if (client.supports(FLOCK_SYSCALL)) {
+        const handle = await client.openHandle(path, { read: true }, callOptions);
+
+        try {
+            await client.callWith(FLOCK_SYSCALL, [handle.fd, { exclusive }], callOptions);
+
+            return new FileLock(client, handle, path, exclusive, undefined, onRelease);
+        }
+        catch (err) {
+            await handle.close();
+
+            if (err instanceof SyscallError && (err.code === 'EAGAIN' || err.code === 'EWOULDBLOCK')) {
+                return undefined;
+            }
+
+            if (!(err instanceof SyscallError && err.code === 'ENOSYS')) {
+                throw err;
+            }
+        }
+    }
+
+    return tryLockEntity(client, path, callOptions, onRelease);
+}
+
+// =============================================================================
+// LOCK ENTITIES
+// =============================================================================
+
+/**
+ * Emulate a lock by exclusively creating `<path>.lock`.
+ *
+ * The entity records who holds the lock, to help clear stale ones.
+ */
+async function tryLockEntity(
+    client: OSClient,
+    path: string,
+    options: CallOptions,
+    onRelease: (lock: FileLock) => void,
+): Promise<FileLock | undefined> {
+    const lockPath = `${path}${LOCK_SUFFIX}`;
+    let handle: FileHandle;
+
+    try {
+        handle = await client.openHandle(lockPath, { write: true, create: true, exclusive: true }, options);
+    }
+    catch (err) {
+        if (err instanceof SyscallError && err.code === 'EEXIST') {
+            return undefined;
+        }
+
+        throw err;
+    }
+
+    const owner = { pid: process.pid, hostname: hostname(), acquired_at: new Date().toISOString() };
+
+    try {
+        await handle.write(JSON.stringify(owner), options);
+    }
+    catch (err) {
+        await handle.close();
+        await removeLockEntity(client, lockPath, options);
+
+        throw err;
+    }
+
+    return new FileLock(client, handle, path, true, lockPath, onRelease);
+}
+
+/**
+ * Remove a lock entity. Already removed is not an error.
+ */
+async function removeLockEntity(client: OSClient, lockPath: string, options?: CallOptions): Promise<void> {
+    try {
+        await client.unlink(lockPath, options);
+    }
+    catch (err) {
+        if (!(err instanceof SyscallError && err.code === 'ENOENT')) {
+            throw err;
+        }
+    }
+}
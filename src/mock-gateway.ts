@@ -0,0 +1,660 @@
+/**
+ * MockGateway - In-process gateway for testing
+ *
+ * Listens on a temporary Unix socket (or TCP / WebSocket), speaks the
+ * gateway wire protocol (length-prefixed MessagePack) and dispatches each
+ * request to a handler registered per syscall name. Lets code built on
+ * OSClient be unit-tested without running Monk OS. Published as its own
+ * entry point (@monk-api/os-sdk/mock-gateway), not from the main one.
+ *
+ * Answers sys:hello, listing the registered syscall names when asked to
+ * (the syscalls option). Optionally requires authentication (token or
+ * shared secret) and serves TCP over TLS, so the client handshake can be
+ * tested too.
+ *
+ * @module mock-gateway
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Request, Response, StdioStream } from './types.js';
+import { isTerminal } from './types.js';
+import { SyscallError } from './error.js';
+import { encodeFrame, FrameDecoder } from './frame.js';
+import type { SocketData } from './connector.js';
+import { writeBuffered } from './connector.js';
+import { PROTOCOL_FEATURES, PROTOCOL_VERSION, signChallenge } from './handshake.js';
+
+// =============================================================================
+// CONNECTION TYPES
+// =============================================================================
+
+/**
+ * State for one client connection, whatever carries it.
+ */
+interface Peer {
+    decoder: FrameDecoder;
+
+    /** Cancellation controllers for in-flight requests by ID */
+    active: Map<string, AbortController>;
+
+    /** Whether the client passed authentication (always true without auth) */
+    authenticated: boolean;
+
+    /** Nonce from the last sys:challenge */
+    nonce?: string;
+
+    /** Write an encoded frame */
+    write(frame: Uint8Array): void;
+
+    /** Close the connection */
+    end(): void;
+}
+
+/**
+ * Socket data stored per Unix/TCP client connection.
+ */
+interface PeerSocketData extends SocketData {
+    peer: Peer;
+}
+
+/**
+ * Listening server (socket listener or WebSocket server).
+ */
+type Listener =
+    | { kind: 'socket'; server: Bun.SocketListener<PeerSocketData> }
+    | { kind: 'ws'; server: Bun.Server<Peer> };
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Syscall the client sends to cancel an in-flight request.
+ */
+const CANCEL_SYSCALL = 'sys:cancel';
+
+/**
+ * Handshake syscalls (see handshake.ts for the wire protocol).
+ */
+const CHALLENGE_SYSCALL = 'sys:challenge';
+const AUTH_SYSCALL = 'sys:auth';
+
+/** Counter for unique temp socket paths within a process */
+let socketCounter = 0;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Response emitter passed to mock handlers.
+ *
+ * Terminal methods (ok, error, done, redirect) end the request; anything
+ * sent afterwards, or after the client cancels, is dropped.
+ */
+export interface MockReply {
+    /** The request being handled */
+    readonly request: Request;
+
+    /** Aborted when the client cancels the request or disconnects */
+    readonly signal: AbortSignal;
+
+    /** Send a success response */
+    ok(data?: unknown): void;
+
+    /** Send an error response */
+    error(code: string, message: string): void;
+
+    /** Send a stream completion marker */
+    done(): void;
+
+    /** Send a redirect response */
+    redirect(data?: Record<string, unknown>): void;
+
+    /** Send a stream item */
+    item(data: Record<string, unknown>): void;
+
+    /** Send a binary data chunk, optionally tagged with a process output stream */
+    data(bytes: Uint8Array, stream?: StdioStream): void;
+
+    /** Send an event notification */
+    event(data?: Record<string, unknown>): void;
+
+    /** Send a progress update */
+    progress(data?: Record<string, unknown>): void;
+}
+
+/**
+ * Handler for one syscall name.
+ *
+ * If the handler returns without sending a terminal response, one is sent
+ * for it: `done` if it streamed items or data, otherwise `ok` with the
+ * return value. Progress and events do not count.
+ *
+ * Throwing a SyscallError sends an error response with its code; any other
+ * exception becomes EIO.
+ *
+ * A is the tuple of request args the handler expects, e.g. [path: string].
+ * It is not checked at runtime.
+ */
+export type MockHandler<A extends unknown[] = unknown[]> = (args: A, reply: MockReply) => unknown;
+
+/**
+ * Backend the mock gateway listens on.
+ */
+export type MockTransport = 'unix' | 'tcp' | 'ws';
+
+/**
+ * Options for MockGateway.
+ */
+export interface MockGatewayOptions {
+    /** Backend to listen on (default: unix) */
+    transport?: MockTransport;
+
+    /** Unix socket path (default: unique path in the OS temp directory) */
+    socketPath?: string;
+
+    /**
+     * Require authentication before any other syscall.
+     *
+     * Accepts the token, or an HMAC of a challenge nonce keyed by the
+     * secret (either one if both are set).
+     */
+    auth?: { token?: string; secret?: string };
+
+    /** Serve TLS with this certificate and key in PEM format (tcp transport) */
+    tls?: { cert: string; key: string };
+
+    /** Features advertised by sys:hello (default: all the SDK knows) */
+    features?: string[];
+
+    /**
+     * List the handlers registered when sys:hello is called as the
+     * gateway's syscalls (default: false).
+     *
+     * The client learns syscalls once, at connect: with this on, handlers
+     * registered afterwards count as unsupported. Without a list the client
+     * assumes every syscall exists.
+     */
+    syscalls?: boolean;
+}
+
+// =============================================================================
+// MOCK GATEWAY CLASS
+// =============================================================================
+
+/**
+ * In-process gateway with a scriptable handler registry.
+ *
+ * @example
+ * const gateway = new MockGateway()
+ *     .on('file:stat', ([path]) => ({ id: '1', name: path, model: 'file' }))
+ *     .on('file:readdir', (_args, reply) => {
+ *         reply.item({ name: 'a.txt', model: 'file' });
+ *         reply.item({ name: 'b.txt', model: 'file' });
+ *     });
+ *
+ * await gateway.start();
+ *
+ * const client = new OSClient();
+ * await client.connect(gateway.url);
+ *
+ * // ...
+ *
+ * client.close();
+ * gateway.stop();
+ */
+export class MockGateway {
+    // =========================================================================
+    // STATE
+    // =========================================================================
+
+    /** Backend the gateway listens on */
+    readonly transport: MockTransport;
+
+    /** Unix socket path the gateway listens on (unix transport) */
+    readonly socketPath: string;
+
+    /** Every request received, in arrival order */
+    readonly requests: Request[] = [];
+
+    /** Handlers by syscall name */
+    private handlers = new Map<string, MockHandler>();
+
+    /** Listening server */
+    private listener?: Listener;
+
+    /** TCP port (tcp/ws transports; kept across restarts) */
+    private port = 0;
+
+    /** Open client connections */
+    private connections = new Set<Peer>();
+
+    /** Required credentials (undefined: no authentication) */
+    private auth?: { token?: string; secret?: string };
+
+    /** TLS certificate and key (tcp transport) */
+    private tls?: { cert: string; key: string };
+
+    /** Features advertised by sys:hello */
+    private features: string[];
+
+    /** Whether sys:hello lists the registered syscalls */
+    private syscalls: boolean;
+
+    constructor(options: MockGatewayOptions = {}) {
+        this.transport = options.transport ?? 'unix';
+        this.socketPath = options.socketPath ??
+            join(tmpdir(), `monk-mock-${process.pid}-${++socketCounter}.sock`);
+        this.auth = options.auth;
+        this.tls = options.tls;
+        this.features = options.features ?? [...PROTOCOL_FEATURES];
+        this.syscalls = options.syscalls ?? false;
+
+        // WHY: a regular handler, so tests can override it or remove it
+        // with off('sys:hello') to act like a gateway predating hello
+        this.on('sys:hello', () => ({
+            protocol: PROTOCOL_VERSION,
+            version: 'mock',
+            syscalls: this.syscalls ? [CANCEL_SYSCALL, ...this.handlers.keys()] : undefined,
+            features: this.features,
+        }));
+
+        if (this.tls && this.transport !== 'tcp') {
+            throw new Error('MockGateway TLS is only supported for the tcp transport');
+        }
+    }
+
+    /**
+     * Gateway URL for OSClient.connect() (tcp/ws ports are known after start).
+     */
+    get url(): string {
+        switch (this.transport) {
+            case 'unix':
+                return `unix://${this.socketPath}`;
+            case 'tcp':
+                return `${this.tls ? 'tls' : 'tcp'}://127.0.0.1:${this.port}`;
+            case 'ws':
+                return `ws://127.0.0.1:${this.port}/`;
+        }
+    }
+
+    // =========================================================================
+    // HANDLER REGISTRY
+    // =========================================================================
+
+    /**
+     * Register a handler for a syscall name (replaces any existing handler).
+     *
+     * @example
+     * gateway.on('proc:getenv', ([name]: [string]) => name === 'HOME' ? '/home/root' : null);
+     */
+    on<A extends unknown[] = unknown[]>(name: string, handler: MockHandler<A>): this {
+        this.handlers.set(name, handler as MockHandler);
+
+        return this;
+    }
+
+    /**
+     * Remove the handler for a syscall name.
+     */
+    off(name: string): this {
+        this.handlers.delete(name);
+
+        return this;
+    }
+
+    /**
+     * Get requests received for a syscall name.
+     */
+    received(name: string): Request[] {
+        return this.requests.filter(request => request.call === name);
+    }
+
+    // =========================================================================
+    // LIFECYCLE
+    // =========================================================================
+
+    /**
+     * Start listening.
+     *
+     * Restarting after stop() reuses the same socket path or port.
+     */
+    async start(): Promise<void> {
+        if (this.listener) {
+            return;
+        }
+
+        if (this.transport === 'ws') {
+            this.listener = { kind: 'ws', server: this.listenWebSocket() };
+            this.port = this.listener.server.port!;
+
+            return;
+        }
+
+        const socket: Bun.SocketHandler<PeerSocketData> = {
+            open: (socket) => {
+                socket.data = {
+                    backlog: [],
+                    peer: this.addPeer(
+                        frame => writeBuffered(socket, frame),
+                        () => socket.end(),
+                    ),
+                };
+            },
+            data: (socket, data) => {
+                this.onData(socket.data.peer, new Uint8Array(data));
+            },
+            drain: (socket) => {
+                writeBuffered(socket);
+            },
+            close: (socket) => {
+                this.onClose(socket.data.peer);
+            },
+        };
+
+        if (this.transport === 'tcp') {
+            const server = Bun.listen<PeerSocketData>({
+                hostname: '127.0.0.1',
+                port: this.port,
+                tls: this.tls,
+                socket,
+            });
+
+            this.listener = { kind: 'socket', server };
+            this.port = server.port;
+
+            return;
+        }
+
+        // Remove a stale socket file from an earlier run
+        rmSync(this.socketPath, { force: true });
+
+        this.listener = {
+            kind: 'socket',
+            server: Bun.listen<PeerSocketData>({ unix: this.socketPath, socket }),
+        };
+    }
+
+    /**
+     * Listen for WebSocket clients; each binary message carries frames.
+     */
+    private listenWebSocket(): Bun.Server<Peer> {
+        return Bun.serve<Peer>({
+            hostname: '127.0.0.1',
+            port: this.port,
+            fetch: (req, server) => {
+                if (server.upgrade(req, { data: undefined as unknown as Peer })) {
+                    return undefined;
+                }
+
+                return new Response('WebSocket upgrade required', { status: 426 });
+            },
+            websocket: {
+                open: (ws) => {
+                    ws.data = this.addPeer(
+                        frame => ws.send(frame),
+                        () => ws.close(),
+                    );
+                },
+                message: (ws, message) => {
+                    if (typeof message !== 'string') {
+                        this.onData(ws.data, new Uint8Array(message));
+                    }
+                },
+                close: (ws) => {
+                    this.onClose(ws.data);
+                },
+            },
+        });
+    }
+
+    /**
+     * Stop listening and drop all client connections.
+     */
+    stop(): void {
+        this.disconnect();
+        this.listener?.server.stop(true);
+        this.listener = undefined;
+
+        if (this.transport === 'unix') {
+            rmSync(this.socketPath, { force: true });
+        }
+    }
+
+    /**
+     * Drop all client connections but keep listening.
+     *
+     * Useful for exercising client reconnect behavior.
+     */
+    disconnect(): void {
+        for (const peer of this.connections) {
+            peer.end();
+            this.onClose(peer);
+        }
+    }
+
+    /**
+     * Send an unsolicited response to every connected client.
+     */
+    broadcast(response: Response): void {
+        for (const peer of this.connections) {
+            peer.write(encodeFrame(response));
+        }
+    }
+
+    // =========================================================================
+    // REQUEST HANDLING
+    // =========================================================================
+
+    /**
+     * Dispatch a request to its handler.
+     */
+    private onRequest(peer: Peer, request: Request): void {
+        this.requests.push(request);
+
+        if (request.call === CANCEL_SYSCALL) {
+            peer.active.get(String(request.args[0]))?.abort();
+            peer.write(encodeFrame({ id: request.id, op: 'ok' }));
+
+            return;
+        }
+
+        if (request.call === CHALLENGE_SYSCALL || request.call === AUTH_SYSCALL) {
+            this.onAuth(peer, request);
+
+            return;
+        }
+
+        if (!peer.authenticated) {
+            peer.write(encodeFrame({ id: request.id, op: 'error', code: 'EACCES', message: 'Not authenticated' }));
+
+            return;
+        }
+
+        const controller = new AbortController();
+        let streamed = false;
+        let finished = false;
+
+        peer.active.set(request.id, controller);
+
+        const send = (response: Response) => {
+            if (finished || controller.signal.aborted) {
+                return;
+            }
+
+            if (isTerminal(response)) {
+                finished = true;
+                peer.active.delete(request.id);
+            }
+            else if (response.op === 'item' || response.op === 'data') {
+                streamed = true;
+            }
+
+            peer.write(encodeFrame(response));
+        };
+
+        const id = request.id;
+        const reply: MockReply = {
+            request,
+            signal: controller.signal,
+            ok: data => send({ id, op: 'ok', data: data as Record<string, unknown> }),
+            error: (code, message) => send({ id, op: 'error', code, message }),
+            done: () => send({ id, op: 'done' }),
+            redirect: data => send({ id, op: 'redirect', data }),
+            item: data => send({ id, op: 'item', data }),
+            data: (bytes, stream) => send(stream ? { id, op: 'data', bytes, stream } : { id, op: 'data', bytes }),
+            event: data => send({ id, op: 'event', data }),
+            progress: data => send({ id, op: 'progress', data }),
+        };
+
+        const handler = this.handlers.get(request.call);
+
+        if (!handler) {
+            reply.error('ENOSYS', `Unknown syscall: ${request.call}`);
+
+            return;
+        }
+
+        // WHY: Promise.resolve().then() so sync throws and async rejections
+        // take the same path
+        Promise.resolve()
+            .then(() => handler(request.args, reply))
+            .then(
+                (result) => {
+                    if (streamed) {
+                        reply.done();
+                    }
+                    else {
+                        reply.ok(result);
+                    }
+                },
+                (err) => {
+                    if (err instanceof SyscallError) {
+                        reply.error(err.code, err.message);
+                    }
+                    else {
+                        reply.error('EIO', (err as Error).message);
+                    }
+                },
+            );
+    }
+
+    /**
+     * Answer the built-in authentication syscalls.
+     */
+    private onAuth(peer: Peer, request: Request): void {
+        const id = request.id;
+        const reply = (response: Response) => {
+            peer.write(encodeFrame(response));
+        };
+
+        if (!this.auth) {
+            reply({ id, op: 'error', code: 'ENOSYS', message: `Unknown syscall: ${request.call}` });
+
+            return;
+        }
+
+        if (request.call === CHALLENGE_SYSCALL) {
+            peer.nonce = randomBytes(16).toString('hex');
+            reply({ id, op: 'ok', data: { nonce: peer.nonce } });
+
+            return;
+        }
+
+        const credentials = (request.args[0] ?? {}) as Record<string, unknown>;
+
+        if (this.verify(peer, credentials)) {
+            peer.authenticated = true;
+            reply({ id, op: 'ok' });
+        }
+        else {
+            reply({ id, op: 'error', code: 'EACCES', message: 'Invalid credentials' });
+        }
+    }
+
+    /**
+     * Check sys:auth credentials against the configured token or secret.
+     */
+    private verify(peer: Peer, credentials: Record<string, unknown>): boolean {
+        const { token, secret } = this.auth!;
+
+        if (credentials.scheme === 'token' && token !== undefined) {
+            return safeEqual(credentials.token, token);
+        }
+
+        if (credentials.scheme === 'hmac' && secret !== undefined && peer.nonce) {
+            const expected = signChallenge(secret, peer.nonce);
+
+            // Nonces are single-use
+            peer.nonce = undefined;
+
+            return safeEqual(credentials.digest, expected);
+        }
+
+        return false;
+    }
+
+    // =========================================================================
+    // CONNECTION HANDLERS
+    // =========================================================================
+
+    /**
+     * Track a new client connection.
+     */
+    private addPeer(write: (frame: Uint8Array) => void, end: () => void): Peer {
+        const peer: Peer = {
+            decoder: new FrameDecoder(),
+            active: new Map(),
+            authenticated: !this.auth,
+            write,
+            end,
+        };
+
+        this.connections.add(peer);
+
+        return peer;
+    }
+
+    /**
+     * Decode received bytes and dispatch complete requests.
+     */
+    private onData(peer: Peer, data: Uint8Array): void {
+        for (const message of peer.decoder.push(data)) {
+            this.onRequest(peer, message as Request);
+        }
+    }
+
+    /**
+     * Forget a closed connection and cancel its in-flight requests.
+     */
+    private onClose(peer: Peer): void {
+        if (!this.connections.delete(peer)) {
+            return;
+        }
+
+        for (const controller of peer.active.values()) {
+            controller.abort();
+        }
+
+        peer.active.clear();
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Constant-time string comparison for credentials.
+ */
+function safeEqual(actual: unknown, expected: string): boolean {
+    if (typeof actual !== 'string' || actual.length !== expected.length) {
+        return false;
+    }
+
+    return timingSafeEqual(Buffer.from(actual), Buffer.from(expected));
+}
@@ -0,0 +1,534 @@
+/**
+ * Process - Handle for a spawned child process
+ *
+ * Binds the process syscalls (proc:wait, proc:kill) to one pid and
+ * remembers the exit status once it is known, so wait() and status() can
+ * be called any number of times after the child has been reaped.
+ *
+ * ps() and processTree() read the process table from proc:list.
+ *
+ * With piped stdio, proc:spawn stays open as a stream: the pid arrives as
+ * the first item, output as data frames tagged with their stream, and
+ * the exit status as the final ok. Input is sent with proc:stdin.
+ *
+ * @module process
+ */
+
+import type { OSClient } from './client.js';
+import type {
+    CallOptions,
+    ExecOptions,
+    ExecResult,
+    ExitStatus,
+    ProcessInfo,
+    ProcessState,
+    ProcessStatus,
+    ProcessTree,
+    PsOptions,
+    Response,
+    SpawnOptions,
+    StdioMode,
+    StdioOptions,
+} from './types.js';
+import { Signal, isData, isError, isItem, isOk, isProgress } from './types.js';
+import { SyscallError } from './error.js';
+import { DEFAULT_CHUNK_SIZE } from './file-stream.js';
+import { abortable } from './timers.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Streams of a process spawned with piped stdio.
+ *
+ * @internal Built by spawn().
+ */
+export interface ProcessPipes {
+    stdin: WritableStream<Uint8Array> | null;
+    stdout: ReadableStream<Uint8Array> | null;
+    stderr: ReadableStream<Uint8Array> | null;
+
+    /** Exit status, from the end of the proc:spawn stream */
+    exit: Promise<ExitStatus>;
+}
+
+// =============================================================================
+// PROCESS CLASS
+// =============================================================================
+
+/**
+ * Child process returned by OSClient.spawn().
+ *
+ * @example
+ * const worker = await client.spawn('/bin/worker', { args: ['--once'] });
+ *
+ * const { code, signal } = await worker.wait();
+ * console.log(`worker ${worker.pid} exited with ${code ?? signal}`);
+ */
+export class Process {
+    /** Input, when spawned with stdin piped (null otherwise) */
+    readonly stdin: WritableStream<Uint8Array> | null;
+
+    /** Output, when spawned with stdout piped (null otherwise) */
+    readonly stdout: ReadableStream<Uint8Array> | null;
+
+    /** Error output, when spawned with stderr piped (null otherwise) */
+    readonly stderr: ReadableStream<Uint8Array> | null;
+
+    /** Exit status, once wait() or status() has seen it */
+    private exitStatus?: ExitStatus;
+
+    /** In-flight wait, shared by wait() calls */
+    private waiting?: Promise<ExitStatus>;
+
+    constructor(
+        private readonly client: OSClient,
+        readonly pid: string,
+        readonly path: string,
+        pipes?: ProcessPipes,
+    ) {
+        this.stdin = pipes?.stdin ?? null;
+        this.stdout = pipes?.stdout ?? null;
+        this.stderr = pipes?.stderr ?? null;
+
+        if (pipes) {
+            this.waiting = this.track(pipes.exit);
+        }
+    }
+
+    /**
+     * Exit status, or undefined while the process is running (or not yet
+     * waited for).
+     */
+    get exited(): ExitStatus | undefined {
+        return this.exitStatus;
+    }
+
+    /**
+     * Wait for the process to exit.
+     *
+     * With piped stdio the status arrives at the end of the spawn stream;
+     * if that stream fails, the next wait() asks proc:wait. Aborting the
+     * signal stops waiting; the process keeps running.
+     */
+    async wait(options?: CallOptions): Promise<ExitStatus> {
+        if (this.exitStatus) {
+            return this.exitStatus;
+        }
+
+        if (this.waiting) {
+            return abortable(this.waiting, options?.signal);
+        }
+
+        // WHY: not shared - aborting this caller's signal would reject the others
+        if (options?.signal) {
+            return this.record(await this.client.wait(this.pid, options));
+        }
+
+        this.waiting = this.track(this.client.wait(this.pid));
+
+        return this.waiting;
+    }
+
+    /**
+     * Check whether the process is still running, without waiting.
+     */
+    async status(options?: CallOptions): Promise<ProcessStatus> {
+        if (this.exitStatus) {
+            return { state: 'exited', ...this.exitStatus };
+        }
+
+        const status = await this.client.tryWait(this.pid, options);
+
+        if (!status) {
+            return { state: 'running' };
+        }
+
+        return { state: 'exited', ...this.record(status) };
+    }
+
+    /**
+     * Send a signal to the process (default: SIGTERM).
+     */
+    async kill(signal: Signal = Signal.SIGTERM, options?: CallOptions): Promise<void> {
+        await this.client.kill(this.pid, signal, options);
+    }
+
+    /**
+     * The pid, so a Process can stand in where a pid string was used.
+     */
+    toString(): string {
+        return this.pid;
+    }
+
+    /**
+     * Record the outcome of a wait; a failed wait can be retried.
+     */
+    private track(exit: Promise<ExitStatus>): Promise<ExitStatus> {
+        const waiting = exit.then(
+            status => this.record(status),
+            (err) => {
+                this.waiting = undefined;
+                throw err;
+            },
+        );
+
+        // WHY: nobody may ever wait - don't report the failure as unhandled
+        waiting.catch(() => {});
+
+        return waiting;
+    }
+
+    /**
+     * Remember the exit status.
+     */
+    private record(status: ExitStatus): ExitStatus {
+        this.exitStatus = status;
+
+        return status;
+    }
+}
+
+// =============================================================================
+// SPAWN / EXEC
+// =============================================================================
+
+/**
+ * Spawn a child process, piping the stdio streams requested.
+ */
+export async function spawn(
+    client: OSClient,
+    path: string,
+    options?: SpawnOptions,
+    callOptions: CallOptions = {},
+): Promise<Process> {
+    const stdio = normalizeStdio(options?.stdio);
+
+    if (!stdio) {
+        // Gateway returns pid directly (may be number, convert to string)
+        const result = await client.callWith<string | number>('proc:spawn', [path, options], callOptions);
+
+        return new Process(client, String(result), path);
+    }
+
+    const responses = client.streamWith('proc:spawn', [path, { ...options, stdio }], callOptions)[Symbol.asyncIterator]();
+    let pid: string | undefined;
+
+    // The pid comes first (progress may precede it)
+    while (pid === undefined) {
+        const next = await responses.next();
+
+        if (next.done || isOk(next.value)) {
+            throw new SyscallError('EIO', 'No pid received', 'proc:spawn');
+        }
+
+        const response = next.value;
+
+        if (isError(response)) {
+            throw SyscallError.fromResponse(response, 'proc:spawn');
+        }
+
+        if (isProgress(response)) {
+            callOptions.onProgress?.(response.data ?? {});
+        }
+
+        if (isItem(response)) {
+            pid = String(response.data.pid);
+        }
+    }
+
+    const stdout = stdio.stdout === 'pipe' ? new OutputPipe() : undefined;
+    const stderr = stdio.stderr === 'pipe' ? new OutputPipe() : undefined;
+    const exit = pumpOutput(client, pid, responses, stdout, stderr);
+
+    return new Process(client, pid, path, {
+        stdin: stdio.stdin === 'pipe' ? createStdin(client, pid, callOptions) : null,
+        stdout: stdout?.stream ?? null,
+        stderr: stderr?.stream ?? null,
+        exit,
+    });
+}
+
+/**
+ * Run a program to completion, collecting its output and exit status.
+ *
+ * Like child_process.execFile, except that a non-zero exit is reported
+ * in the result rather than thrown.
+ */
+export async function exec(
+    client: OSClient,
+    path: string,
+    args: string[] = [],
+    options: ExecOptions = {},
+): Promise<ExecResult> {
+    const { env, cwd, input, ...callOptions } = options;
+    const spawnOptions: SpawnOptions = {
+        args,
+        stdio: { stdin: input === undefined ? 'ignore' : 'pipe', stdout: 'pipe', stderr: 'pipe' },
+    };
+
+    if (env) {
+        spawnOptions.env = env;
+    }
+
+    if (cwd) {
+        spawnOptions.cwd = cwd;
+    }
+
+    const child = await spawn(client, path, spawnOptions, callOptions);
+    const [stdout, stderr] = await Promise.all([
+        readText(child.stdout!),
+        readText(child.stderr!),
+        input === undefined ? undefined : writeInput(child.stdin!, input),
+    ]);
+
+    return { ...await child.wait(callOptions), stdout, stderr };
+}
+
+// =============================================================================
+// LISTING
+// =============================================================================
+
+/**
+ * List processes, optionally only children of a pid or in given states.
+ */
+export async function* ps(client: OSClient, options: PsOptions = {}): AsyncGenerator<ProcessInfo> {
+    const { ppid, state, ...callOptions } = options;
+    const states = state === undefined ? undefined : [state].flat();
+
+    // WHY: filtered here - process tables are small, and gateways need not
+    // support filters
+    for await (const record of client.iterateWith<Record<string, unknown>>('proc:list', [], callOptions)) {
+        const info = toProcessInfo(record);
+
+        if ((ppid === undefined || info.ppid === ppid) && (!states || states.includes(info.state))) {
+            yield info;
+        }
+    }
+}
+
+/**
+ * Get a process and all its descendants from one listing.
+ *
+ * @throws SyscallError (ESRCH) if no process has the pid
+ */
+export async function processTree(client: OSClient, pid: string, options?: CallOptions): Promise<ProcessTree> {
+    const byParent = new Map<string, ProcessInfo[]>();
+    let root: ProcessInfo | undefined;
+
+    for await (const info of ps(client, options)) {
+        if (info.pid === pid) {
+            root = info;
+        }
+
+        const siblings = byParent.get(info.ppid);
+
+        if (siblings) {
+            siblings.push(info);
+        }
+        else {
+            byParent.set(info.ppid, [info]);
+        }
+    }
+
+    if (!root) {
+        throw new SyscallError('ESRCH', `No such process: ${pid}`, 'proc:list');
+    }
+
+    // Guards against parent cycles in a listing taken while processes exit
+    const seen = new Set<string>();
+
+    const build = (info: ProcessInfo): ProcessTree => {
+        seen.add(info.pid);
+
+        const children = (byParent.get(info.pid) ?? []).filter(child => !seen.has(child.pid));
+
+        return { ...info, children: children.map(build) };
+    };
+
+    return build(root);
+}
+
+// =============================================================================
+// STDIO
+// =============================================================================
+
+/**
+ * Readable side of a piped output stream, fed by the proc:spawn stream.
+ *
+ * Output is queued until read; once the reader cancels, it is dropped.
+ */
+class OutputPipe {
+    readonly stream: ReadableStream<Uint8Array>;
+    private controller!: ReadableStreamDefaultController<Uint8Array>;
+    private open = true;
+
+    constructor() {
+        this.stream = new ReadableStream<Uint8Array>({
+            start: (controller) => {
+                this.controller = controller;
+            },
+            cancel: () => {
+                this.open = false;
+            },
+        });
+    }
+
+    push(bytes: Uint8Array): void {
+        if (this.open) {
+            this.controller.enqueue(bytes);
+        }
+    }
+
+    end(err?: unknown): void {
+        if (!this.open) {
+            return;
+        }
+
+        this.open = false;
+
+        if (err === undefined) {
+            this.controller.close();
+        }
+        else {
+            this.controller.error(err);
+        }
+    }
+}
+
+/**
+ * Route the rest of the proc:spawn stream to the output pipes.
+ *
+ * @returns Exit status from the final ok (or from proc:wait if the
+ *          gateway ends the stream without one)
+ */
+async function pumpOutput(
+    client: OSClient,
+    pid: string,
+    responses: AsyncIterator<Response>,
+    stdout: OutputPipe | undefined,
+    stderr: OutputPipe | undefined,
+): Promise<ExitStatus> {
+    let status: ExitStatus | undefined;
+
+    try {
+        for (let next = await responses.next(); !next.done; next = await responses.next()) {
+            const response = next.value;
+
+            if (isError(response)) {
+                throw SyscallError.fromResponse(response, 'proc:spawn');
+            }
+
+            if (isData(response)) {
+                (response.stream === 'stderr' ? stderr : stdout)?.push(response.bytes);
+            }
+
+            if (isOk(response)) {
+                status = toExitStatus(response.data ?? {});
+            }
+        }
+    }
+    catch (err) {
+        stdout?.end(err);
+        stderr?.end(err);
+        throw err;
+    }
+
+    stdout?.end();
+    stderr?.end();
+
+    return status ?? client.wait(pid);
+}
+
+/**
+ * Writable side of a piped stdin: chunks become proc:stdin frames of at
+ * most DEFAULT_CHUNK_SIZE bytes, and closing the stream sends end of file.
+ */
+function createStdin(client: OSClient, pid: string, callOptions: CallOptions): WritableStream<Uint8Array> {
+    const options = { signal: callOptions.signal, maxRedirects: callOptions.maxRedirects };
+    const end = async () => {
+        await client.callWith('proc:stdin', [pid, { end: true }], options);
+    };
+
+    return new WritableStream<Uint8Array>({
+        write: async (chunk) => {
+            for (let offset = 0; offset < chunk.length; offset += DEFAULT_CHUNK_SIZE) {
+                const data = chunk.subarray(offset, offset + DEFAULT_CHUNK_SIZE);
+
+                await client.callWith('proc:stdin', [pid, { data }], options);
+            }
+        },
+        close: end,
+        abort: async () => {
+            await end().catch(() => {});
+        },
+    }, new ByteLengthQueuingStrategy({ highWaterMark: DEFAULT_CHUNK_SIZE }));
+}
+
+/**
+ * Resolve the stdio option to per-stream modes, or undefined if nothing
+ * is piped.
+ */
+function normalizeStdio(stdio: StdioMode | StdioOptions | undefined): Required<StdioOptions> | undefined {
+    const modes = typeof stdio === 'string' ? { stdin: stdio, stdout: stdio, stderr: stdio } : stdio;
+    const normalized: Required<StdioOptions> = {
+        stdin: modes?.stdin ?? 'ignore',
+        stdout: modes?.stdout ?? 'ignore',
+        stderr: modes?.stderr ?? 'ignore',
+    };
+
+    return Object.values(normalized).includes('pipe') ? normalized : undefined;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Normalize a proc:wait result (fields may be missing or undefined).
+ */
+export function toExitStatus(result: Record<string, unknown>): ExitStatus {
+    return {
+        code: typeof result.code === 'number' ? result.code : null,
+        signal: typeof result.signal === 'string' ? result.signal as Signal : null,
+    };
+}
+
+/**
+ * Normalize a proc:list record (pids may be numbers).
+ */
+function toProcessInfo(record: Record<string, unknown>): ProcessInfo {
+    return {
+        pid: String(record.pid),
+        ppid: record.ppid === undefined || record.ppid === null ? '' : String(record.ppid),
+        path: String(record.path ?? ''),
+        cwd: String(record.cwd ?? ''),
+        state: record.state as ProcessState,
+        started_at: String(record.started_at ?? ''),
+    };
+}
+
+/**
+ * Read a stream to the end as UTF-8 text.
+ */
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+    const decoder = new TextDecoder();
+    let text = '';
+
+    for await (const chunk of stream) {
+        text += decoder.decode(chunk, { stream: true });
+    }
+
+    return text + decoder.decode();
+}
+
+/**
+ * Write input to a stream and close it.
+ */
+async function writeInput(stdin: WritableStream<Uint8Array>, input: string | Uint8Array): Promise<void> {
+    const writer = stdin.getWriter();
+
+    await writer.write(typeof input === 'string' ? new TextEncoder().encode(input) : input);
+    await writer.close();
+}
@@ -0,0 +1,147 @@
+/**
+ * Redirect - Following gateway redirect responses
+ *
+ * A redirect ends a request and names where to re-issue it: another
+ * syscall, another path (symlinks, mounts) and/or another gateway. Each
+ * call follows its own chain of redirects up to a hop limit; revisiting
+ * a target (same gateway, call and path) is a loop.
+ *
+ * @module redirect
+ */
+
+import type { RedirectData } from './types.js';
+import { SyscallError } from './error.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Default number of redirects followed per call.
+ */
+export const DEFAULT_MAX_REDIRECTS = 8;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Where a request is issued.
+ */
+export interface RedirectTarget {
+    /** Syscall name */
+    call: string;
+
+    /** Syscall arguments */
+    args: unknown[];
+
+    /** Gateway URL (undefined: the client's own gateway) */
+    gateway?: string;
+}
+
+// =============================================================================
+// REDIRECT CHAIN
+// =============================================================================
+
+/**
+ * Redirect chain for one call.
+ *
+ * @example
+ * const chain = new RedirectChain({ call, args }, 8);
+ *
+ * while (isRedirect(response)) {
+ *     response = await issue(chain.follow(response.data));
+ * }
+ */
+export class RedirectChain {
+    /** Current target */
+    private target: RedirectTarget;
+
+    /** Redirects followed so far */
+    private hops = 0;
+
+    /** Targets visited (for loop detection; created by the first follow()) */
+    private visited: Set<string> | undefined;
+
+    constructor(origin: RedirectTarget, private readonly limit: number) {
+        this.target = origin;
+    }
+
+    /**
+     * Get the target the request is currently issued to.
+     */
+    get current(): RedirectTarget {
+        return this.target;
+    }
+
+    /**
+     * Apply a redirect and return the new target.
+     *
+     * @throws SyscallError (ELOOP) past the hop limit or on a loop
+     * @throws SyscallError (EINVAL) for a path redirect of a call without a path
+     */
+    follow(data: RedirectData = {}): RedirectTarget {
+        const from = this.target;
+
+        // WHY: most calls never redirect - the origin is only keyed once one does
+        this.visited ??= new Set([targetKey(from)]);
+
+        if (this.hops >= this.limit) {
+            throw new SyscallError('ELOOP', `Too many redirects (limit ${this.limit})`, from.call);
+        }
+
+        let args = data.args ?? from.args;
+
+        if (data.path !== undefined) {
+            if (typeof args[0] !== 'string') {
+                throw new SyscallError('EINVAL', `Path redirect for ${from.call}, which takes no path`, from.call);
+            }
+
+            args = [data.path, ...args.slice(1)];
+        }
+
+        const to: RedirectTarget = {
+            call: data.call ?? from.call,
+            args,
+            gateway: data.gateway ?? from.gateway,
+        };
+
+        const key = targetKey(to);
+
+        if (this.visited.has(key)) {
+            throw new SyscallError('ELOOP', `Redirect loop at ${describe(to)}`, from.call);
+        }
+
+        this.visited.add(key);
+        this.hops++;
+        this.target = to;
+
+        return to;
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Identity of a target for loop detection.
+ *
+ * WHY: only the path argument - the others may be large binary payloads
+ * (file:write data) that would be costly to serialize
+ */
+function targetKey(target: RedirectTarget): string {
+    const path = typeof target.args[0] === 'string' ? target.args[0] : '';
+
+    return JSON.stringify([target.gateway ?? '', target.call, path]);
+}
+
+/**
+ * Describe a target for error messages.
+ */
+function describe(target: RedirectTarget): string {
+    const path = typeof target.args[0] === 'string' ? ` ${target.args[0]}` : '';
+    const gateway = target.gateway ? ` on ${target.gateway}` : '';
+
+    return `${target.call}${path}${gateway}`;
+}
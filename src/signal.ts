@@ -0,0 +1,194 @@
+/**
+ * Signal - Signals delivered to the gateway-attached process
+ *
+ * The gateway forwards signals aimed at this client's process as
+ * unsolicited events:
+ *
+ *   { op: 'event', data: { type: 'signal', signal: 'SIGTERM' } }
+ *
+ * One events() subscription serves every handler. It starts with the
+ * first handler, stops when the last one is removed, and carries on
+ * across reconnects. When it ends for good (the client closed or could not
+ * reconnect), every handler is removed and told through its onError.
+ *
+ * @module signal
+ */
+
+import type { OSClient } from './client.js';
+import type { EventResponse, Signal, SignalHandler, SignalOptions } from './types.js';
+import { ConnectionError } from './error.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Event type of a delivered signal.
+ */
+export const SIGNAL_EVENT = 'signal';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One onSignal() call.
+ */
+interface Registration {
+    handler: SignalHandler;
+    onError?: (error: unknown, signal: Signal) => void;
+}
+
+// =============================================================================
+// SIGNAL DISPATCHER CLASS
+// =============================================================================
+
+/**
+ * Routes signal events to handlers registered with OSClient.onSignal().
+ *
+ * @internal
+ */
+export class SignalDispatcher {
+    /** Registrations by signal name */
+    private registrations = new Map<Signal, Set<Registration>>();
+
+    /** Stops the events() subscription (undefined when not listening) */
+    private listening: AbortController | undefined;
+
+    constructor(private readonly client: OSClient) {}
+
+    /**
+     * Register a handler.
+     *
+     * @returns Function that removes the handler
+     * @throws ConnectionError (ENOTCONN) if the client is not connected
+     */
+    on(signal: Signal, handler: SignalHandler, options: SignalOptions = {}): () => void {
+        if (this.client.getState() === 'disconnected') {
+            throw new ConnectionError('ENOTCONN', 'Not connected');
+        }
+
+        let registrations = this.registrations.get(signal);
+
+        if (!registrations) {
+            registrations = new Set();
+            this.registrations.set(signal, registrations);
+        }
+
+        // WHY: one object per call, so the same handler registered twice is removed once per call
+        const registration: Registration = { handler, onError: options.onError };
+
+        registrations.add(registration);
+        this.listen();
+
+        return () => this.off(signal, registration);
+    }
+
+    /**
+     * Remove a registration, and stop listening once none are left.
+     */
+    private off(signal: Signal, registration: Registration): void {
+        const registrations = this.registrations.get(signal);
+
+        if (!registrations?.delete(registration)) {
+            return;
+        }
+
+        if (registrations.size === 0) {
+            this.registrations.delete(signal);
+        }
+
+        if (this.registrations.size === 0) {
+            this.listening?.abort();
+            this.listening = undefined;
+        }
+    }
+
+    /**
+     * Start the events() subscription if it is not running.
+     */
+    private listen(): void {
+        if (this.listening) {
+            return;
+        }
+
+        const controller = new AbortController();
+
+        this.listening = controller;
+
+        this.consume(controller.signal).then(
+            () => {},
+            (err: unknown) => {
+                // Stopped by off() - nobody is left to tell
+                if (controller.signal.aborted) {
+                    return;
+                }
+
+                this.listening = undefined;
+                this.end(err);
+            },
+        );
+    }
+
+    /**
+     * Deliver signal events until the subscription ends.
+     */
+    private async consume(signal: AbortSignal): Promise<void> {
+        for await (const event of this.client.events({ signal })) {
+            const received = toSignal(event);
+
+            if (received === undefined) {
+                continue;
+            }
+
+            // WHY: copy - a handler may unsubscribe itself while being called
+            for (const registration of [...this.registrations.get(received) ?? []]) {
+                deliver(registration, received);
+            }
+        }
+    }
+
+    /**
+     * Remove every registration after the subscription ended, telling each.
+     */
+    private end(error: unknown): void {
+        const ended = [...this.registrations];
+
+        this.registrations.clear();
+
+        for (const [signal, registrations] of ended) {
+            for (const { onError } of registrations) {
+                onError?.(error, signal);
+            }
+        }
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Call a handler, routing what it throws or rejects with to its onError.
+ *
+ * WHY: a handler's failure must neither stop delivery to the others nor
+ * surface as an unhandled rejection, which ends the process by default
+ */
+function deliver({ handler, onError }: Registration, signal: Signal): void {
+    Promise.resolve()
+        .then(() => handler(signal))
+        .catch((err: unknown) => onError?.(err, signal));
+}
+
+/**
+ * Signal carried by an event, or undefined if it is some other event.
+ */
+function toSignal(event: EventResponse): Signal | undefined {
+    const data = event.data;
+
+    if (data?.type !== SIGNAL_EVENT || typeof data.signal !== 'string') {
+        return undefined;
+    }
+
+    return data.signal as Signal;
+}
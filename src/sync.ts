@@ -0,0 +1,347 @@
+/**
+ * Sync - Mirror trees between the local filesystem and Monk OS
+ *
+ * Both directions share one planner: list the source and destination
+ * trees, compare entries by type, size and modification time (or content
+ * hash), then create, update and optionally delete destination entries.
+ *
+ * Written files get the source's modification time, so an unchanged file
+ * compares equal on the next run. A gateway that cannot set modification
+ * times (no file:utimes) is compared by content instead.
+ *
+ * @module sync
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import type { OSClient } from './client.js';
+import type { SyncChange, SyncOptions, SyncResult } from './types.js';
+import { FOLDER_MODEL } from './types.js';
+import { SyscallError } from './error.js';
+import { createLimiter, mkdirp, rmrf } from './tree.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Entry of a listed tree.
+ */
+interface SyncEntry {
+    type: 'file' | 'folder';
+    size: number;
+    mtimeMs: number;
+}
+
+/**
+ * One side of a sync. Paths are relative to its root, with / separators
+ * ('' is the root).
+ */
+interface SyncSide {
+    /** Root path, for error messages */
+    root: string;
+
+    /** Whether write() sets modification times (if not, files are compared by content) */
+    keepsTimes: boolean;
+
+    /** All entries beneath the root (undefined if the root does not exist) */
+    list(): Promise<Map<string, SyncEntry> | undefined>;
+    read(path: string): Promise<Uint8Array>;
+
+    /** Write a file and set its modification time (if keepsTimes) */
+    write(path: string, data: Uint8Array, mtimeMs: number): Promise<void>;
+    mkdir(path: string): Promise<void>;
+    remove(path: string): Promise<void>;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Mirror a local directory into a Monk OS path.
+ */
+export async function syncTo(
+    client: OSClient,
+    localDir: string,
+    remotePath: string,
+    options: SyncOptions = {},
+): Promise<SyncResult> {
+    return sync(localSide(localDir), remoteSide(client, remotePath, options), options);
+}
+
+/**
+ * Mirror a Monk OS path into a local directory.
+ */
+export async function syncFrom(
+    client: OSClient,
+    remotePath: string,
+    localDir: string,
+    options: SyncOptions = {},
+): Promise<SyncResult> {
+    return sync(remoteSide(client, remotePath, options), localSide(localDir), options);
+}
+
+// =============================================================================
+// PLANNER
+// =============================================================================
+
+/**
+ * Bring destination in line with source.
+ *
+ * Folders are created first (parents before children), then files are
+ * transferred concurrently, then extraneous entries are deleted.
+ *
+ * @throws SyscallError (ENOENT) if the source root does not exist
+ */
+async function sync(source: SyncSide, destination: SyncSide, options: SyncOptions): Promise<SyncResult> {
+    const [from, listed] = await Promise.all([source.list(), destination.list()]);
+
+    // WHY: a missing source is not an empty one - with delete, treating it
+    // as empty would wipe the destination
+    if (!from) {
+        throw new SyscallError('ENOENT', `No such file or directory: ${source.root}`);
+    }
+
+    // A missing destination is created
+    const to = listed ?? new Map<string, SyncEntry>();
+
+    // WHY: mtimes the destination cannot stamp never match the source's
+    const checksum = options.checksum || !destination.keepsTimes;
+    const folders: SyncChange[] = [];
+    const files: SyncChange[] = [];
+    const deletions: SyncChange[] = [];
+    let unchanged = 0;
+
+    // WHY: a sorted list puts every folder before its contents
+    for (const path of [...from.keys()].sort()) {
+        const entry = from.get(path)!;
+        const existing = to.get(path);
+        const plan = entry.type === 'folder' ? folders : files;
+
+        if (!existing) {
+            plan.push({ action: 'create', path, type: entry.type, size: fileSize(entry) });
+        }
+        else if (existing.type !== entry.type || await changed(source, destination, path, entry, existing, checksum)) {
+            plan.push({ action: 'update', path, type: entry.type, size: fileSize(entry) });
+        }
+        else {
+            unchanged++;
+        }
+    }
+
+    if (options.delete) {
+        for (const path of [...to.keys()].sort()) {
+            // Contents of folders being deleted or replaced by files go with them
+            const parent = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+            const covered = parent !== '' && from.get(parent)?.type !== 'folder';
+
+            if (!from.has(path) && !covered) {
+                deletions.push({ action: 'delete', path, type: to.get(path)!.type });
+            }
+        }
+    }
+
+    const total = folders.length + files.length + deletions.length;
+    const changes: SyncChange[] = [];
+    let done = 0;
+
+    const apply = async (change: SyncChange, action: () => Promise<void>) => {
+        if (!options.dryRun) {
+            await action();
+        }
+
+        changes.push(change);
+        options.onChange?.(change);
+        options.onProgress?.({ done: ++done, total, unit: 'files', message: change.path });
+    };
+
+    if (!options.dryRun) {
+        await destination.mkdir('');
+    }
+
+    for (const change of folders) {
+        await apply(change, async () => {
+            if (change.action === 'update') {
+                await destination.remove(change.path);
+            }
+
+            await destination.mkdir(change.path);
+        });
+    }
+
+    const limit = createLimiter(options.concurrency);
+
+    await Promise.all(files.map(change => limit(() => apply(change, async () => {
+        if (to.get(change.path)?.type === 'folder') {
+            await destination.remove(change.path);
+        }
+
+        await destination.write(change.path, await source.read(change.path), from.get(change.path)!.mtimeMs);
+    }))));
+
+    for (const change of deletions) {
+        await apply(change, () => destination.remove(change.path));
+    }
+
+    return { changes, unchanged };
+}
+
+/**
+ * Check whether a file differs between source and destination.
+ */
+async function changed(
+    source: SyncSide,
+    destination: SyncSide,
+    path: string,
+    entry: SyncEntry,
+    existing: SyncEntry,
+    checksum: boolean | undefined,
+): Promise<boolean> {
+    if (entry.type === 'folder') {
+        return false;
+    }
+
+    if (entry.size !== existing.size) {
+        return true;
+    }
+
+    if (checksum) {
+        const [a, b] = await Promise.all([source.read(path), destination.read(path)]);
+
+        return sha256(a) !== sha256(b);
+    }
+
+    // WHY: whole seconds - filesystems and the gateway keep different precision
+    return Math.floor(entry.mtimeMs / 1000) !== Math.floor(existing.mtimeMs / 1000);
+}
+
+// =============================================================================
+// SIDES
+// =============================================================================
+
+/**
+ * Local directory side (node:fs). Symlinks and special files are skipped.
+ */
+function localSide(root: string): SyncSide {
+    const resolve = (path: string) => join(root, ...path.split('/'));
+
+    const list = async () => {
+        const entries = new Map<string, SyncEntry>();
+
+        const visit = async (dir: string) => {
+            for (const dirent of await fs.readdir(resolve(dir), { withFileTypes: true })) {
+                const path = dir ? `${dir}/${dirent.name}` : dirent.name;
+
+                if (dirent.isDirectory()) {
+                    entries.set(path, { type: 'folder', size: 0, mtimeMs: 0 });
+                    await visit(path);
+                }
+                else if (dirent.isFile()) {
+                    const stats = await fs.stat(resolve(path));
+
+                    entries.set(path, { type: 'file', size: stats.size, mtimeMs: stats.mtimeMs });
+                }
+            }
+        };
+
+        try {
+            await visit('');
+        }
+        catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT' || entries.size > 0) {
+                throw err;
+            }
+
+            return undefined;
+        }
+
+        return entries;
+    };
+
+    return {
+        root,
+        keepsTimes: true,
+        list,
+        read: async path => fs.readFile(resolve(path)),
+        write: async (path, data, mtimeMs) => {
+            await fs.writeFile(resolve(path), data);
+            await fs.utimes(resolve(path), new Date(mtimeMs), new Date(mtimeMs));
+        },
+        mkdir: async path => {
+            await fs.mkdir(resolve(path), { recursive: true });
+        },
+        remove: path => fs.rm(resolve(path), { recursive: true, force: true }),
+    };
+}
+
+/**
+ * Monk OS side (OSClient).
+ */
+function remoteSide(client: OSClient, root: string, options: SyncOptions): SyncSide {
+    // WHY: per-call options without the sync-level progress callback
+    const callOptions = { ...options, onProgress: undefined };
+    const resolve = (path: string) => posix.join(root, path);
+
+    const list = async () => {
+        const entries = new Map<string, SyncEntry>();
+
+        try {
+            for await (const { path, stat } of client.walk(root, callOptions)) {
+                entries.set(posix.relative(root, path), {
+                    type: stat.model === FOLDER_MODEL ? 'folder' : 'file',
+                    size: stat.size ?? 0,
+                    mtimeMs: Date.parse(stat.updated_at) || 0,
+                });
+            }
+        }
+        catch (err) {
+            if (!(err instanceof SyscallError && err.code === 'ENOENT' && entries.size === 0)) {
+                throw err;
+            }
+
+            return undefined;
+        }
+
+        return entries;
+    };
+
+    const keepsTimes = client.supports('file:utimes');
+
+    return {
+        root,
+        keepsTimes,
+        list,
+        read: path => client.readFile(resolve(path), callOptions),
+        write: async (path, data, mtimeMs) => {
+            await client.writeFile(resolve(path), data, callOptions);
+
+            if (keepsTimes) {
+                await client.utimes(resolve(path), { updated_at: new Date(mtimeMs) }, callOptions);
+            }
+        },
+        mkdir: async path => {
+            await mkdirp(client, resolve(path), callOptions);
+        },
+        remove: path => rmrf(client, resolve(path), callOptions),
+    };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Size to report for a change (files only).
+ */
+function fileSize(entry: SyncEntry): number | undefined {
+    return entry.type === 'file' ? entry.size : undefined;
+}
+
+/**
+ * Hex SHA-256 of data.
+ */
+function sha256(data: Uint8Array): string {
+    return createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,638 @@
+/**
+ * Tar - POSIX ustar export and import of Monk OS subtrees
+ *
+ * Every entry is preceded by a PAX extended header carrying the gateway
+ * Stat metadata (monk.id, monk.model, monk.created_at, monk.updated_at)
+ * plus the standard path, size and mtime records where ustar fields are
+ * too small. Archives open with any tar tool; the monk.* records are
+ * ignored by tools that do not know them.
+ *
+ * Both directions stream: file contents pass through one chunk at a time.
+ *
+ * @module tar
+ */
+
+import { posix } from 'node:path';
+import type { OSClient } from './client.js';
+import type { CallOptions, Stat, Timestamps, TreeOptions } from './types.js';
+import { FOLDER_MODEL } from './types.js';
+import { SyscallError } from './error.js';
+import { mkdirp } from './tree.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Size of a tar header or data block */
+const BLOCK_SIZE = 512;
+
+/** Largest size or mtime a 12-byte octal field can hold */
+const MAX_OCTAL_11 = 0o77777777777;
+
+/** Typeflags */
+const TYPE_FILE = '0';
+const TYPE_FOLDER = '5';
+const TYPE_PAX = 'x';
+const TYPE_PAX_GLOBAL = 'g';
+const TYPE_GNU_LONGNAME = 'L';
+
+/** Prefix of PAX records carrying gateway Stat fields */
+const MONK_PREFIX = 'monk.';
+
+/** Stat fields carried in PAX headers */
+const MONK_FIELDS = ['id', 'model', 'created_at', 'updated_at'] as const;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Header fields of one archive entry.
+ */
+interface TarHeader {
+    name: string;
+    type: string;
+    size: number;
+    mtime: number;
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Archive a Monk OS subtree as a ustar stream.
+ *
+ * Entry names are relative to remotePath (folders end with /). The tree
+ * is walked and files are read as the consumer pulls.
+ */
+export function exportTar(client: OSClient, remotePath: string, options: TreeOptions = {}): ReadableStream<Uint8Array> {
+    const blocks = archiveBlocks(client, remotePath, options);
+
+    return new ReadableStream<Uint8Array>({
+        pull: async (controller) => {
+            const { value, done } = await blocks.next();
+
+            if (done) {
+                controller.close();
+            }
+            else {
+                controller.enqueue(value);
+            }
+        },
+        cancel: async () => {
+            await blocks.return(undefined);
+        },
+    });
+}
+
+async function* archiveBlocks(client: OSClient, root: string, options: TreeOptions): AsyncGenerator<Uint8Array> {
+    for await (const { path, stat } of client.walk(root, options)) {
+        const folder = stat.model === FOLDER_MODEL;
+        const name = posix.relative(root, path) + (folder ? '/' : '');
+        const size = folder ? 0 : stat.size ?? 0;
+
+        yield* entryHeaders(name, folder ? TYPE_FOLDER : TYPE_FILE, size, stat);
+
+        if (folder) {
+            continue;
+        }
+
+        let written = 0;
+
+        for await (const chunk of client.createReadStream(path, options)) {
+            written += chunk.length;
+
+            if (written > size) {
+                break;
+            }
+
+            yield chunk;
+        }
+
+        // WHY: the header already promised `size` bytes
+        if (written !== size) {
+            throw new SyscallError('EIO', `File changed size during export: ${path}`, 'file:read');
+        }
+
+        yield padding(size);
+    }
+
+    yield new Uint8Array(BLOCK_SIZE * 2);
+}
+
+/**
+ * PAX and ustar headers for one entry.
+ */
+function entryHeaders(name: string, type: string, size: number, stat: Stat): Uint8Array[] {
+    const records: [string, string][] = [];
+    const updated = Date.parse(stat.updated_at);
+    const mtime = Number.isNaN(updated) ? 0 : updated / 1000;
+
+    if (encoder.encode(name).length > 100) {
+        records.push(['path', name]);
+    }
+
+    if (size > MAX_OCTAL_11) {
+        records.push(['size', String(size)]);
+    }
+
+    records.push(['mtime', String(mtime)]);
+
+    for (const field of MONK_FIELDS) {
+        if (stat[field] !== undefined) {
+            records.push([MONK_PREFIX + field, String(stat[field])]);
+        }
+    }
+
+    const pax = encodePax(records);
+    const paxName = `PaxHeaders/${posix.basename(name)}`;
+
+    return [
+        encodeHeader({ name: paxName, type: TYPE_PAX, size: pax.length, mtime }),
+        pax,
+        padding(pax.length),
+        encodeHeader({ name, type, size: size > MAX_OCTAL_11 ? 0 : size, mtime }),
+    ];
+}
+
+/**
+ * Encode a ustar header block.
+ */
+function encodeHeader(header: TarHeader): Uint8Array {
+    const block = new Uint8Array(BLOCK_SIZE);
+    const type = header.type;
+
+    block.set(encoder.encode(header.name).subarray(0, 100), 0);
+    writeOctal(block, 100, 8, type === TYPE_FOLDER ? 0o755 : 0o644);
+    writeOctal(block, 108, 8, 0);
+    writeOctal(block, 116, 8, 0);
+    writeOctal(block, 124, 12, header.size);
+    writeOctal(block, 136, 12, Math.min(MAX_OCTAL_11, Math.max(0, Math.floor(header.mtime))));
+    block[156] = type.charCodeAt(0);
+    block.set(encoder.encode('ustar\0' + '00'), 257);
+
+    // Checksum is computed with its own field as spaces
+    block.fill(0x20, 148, 156);
+
+    const checksum = block.reduce((sum, byte) => sum + byte, 0);
+
+    block.set(encoder.encode(checksum.toString(8).padStart(6, '0') + '\0 '), 148);
+
+    return block;
+}
+
+/**
+ * Encode PAX records ("<length> <key>=<value>\n", length counting itself).
+ */
+function encodePax(records: [string, string][]): Uint8Array {
+    const lines = records.map(([key, value]) => {
+        const body = ` ${key}=${value}\n`;
+        const bytes = encoder.encode(body).length;
+        let length = bytes + String(bytes).length;
+
+        // Counting the length's own digits can add a digit
+        if (String(length).length > String(bytes).length) {
+            length++;
+        }
+
+        return `${length}${body}`;
+    });
+
+    return encoder.encode(lines.join(''));
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Extract a tar stream into a Monk OS path.
+ *
+ * Files are replaced, folders merged into, and timestamps restored from
+ * monk.* (or mtime) records when the gateway supports file:utimes.
+ * Links and other special entries are skipped. Entries whose path leaves
+ * the target (absolute or ..), or whose size or mtime is malformed, are
+ * rejected with EINVAL.
+ */
+export async function importTar(
+    client: OSClient,
+    stream: ReadableStream<Uint8Array>,
+    remotePath: string,
+    options: CallOptions = {},
+): Promise<void> {
+    const reader = new BlockReader(stream);
+    const folders = new Set<string>();
+    const folderTimes: [string, Timestamps][] = [];
+    const stampTimes = client.supports('file:utimes');
+    let global: Record<string, string> = {};
+    let local: Record<string, string> = {};
+    let longName: string | undefined;
+
+    const ensureFolder = async (path: string) => {
+        if (!folders.has(path)) {
+            await mkdirp(client, path, options);
+            folders.add(path);
+        }
+    };
+
+    try {
+        await ensureFolder(remotePath);
+
+        while (true) {
+            const block = await reader.read(BLOCK_SIZE);
+
+            // End of archive: a zero block (or a stream that simply ends)
+            if (!block || block.every(byte => byte === 0)) {
+                break;
+            }
+
+            const header = decodeHeader(block);
+            const records = { ...global, ...local };
+            const name = records.path ?? longName ?? header.name;
+            const size = entrySize(name, records, header.size);
+
+            if (header.type === TYPE_PAX || header.type === TYPE_PAX_GLOBAL || header.type === TYPE_GNU_LONGNAME) {
+                const data = await reader.readPadded(size);
+
+                if (header.type === TYPE_PAX) {
+                    local = decodePax(data);
+                }
+                else if (header.type === TYPE_PAX_GLOBAL) {
+                    global = { ...global, ...decodePax(data) };
+                }
+                else {
+                    longName = decoder.decode(data).replace(/\0+$/, '');
+                }
+
+                continue;
+            }
+
+            const target = resolveEntry(remotePath, name);
+            const times = entryTimes(name, records, header.mtime);
+
+            local = {};
+            longName = undefined;
+
+            const folder = header.type === TYPE_FOLDER || (name.endsWith('/') && size === 0);
+            const file = !folder && (header.type === TYPE_FILE || header.type === '\0' || header.type === '7');
+
+            if (folder) {
+                await ensureFolder(target);
+                folderTimes.push([target, times]);
+            }
+            else if (file) {
+                await ensureFolder(posix.dirname(target));
+                await writeEntry(client, reader, target, size, options);
+
+                if (stampTimes) {
+                    await client.utimes(target, times, options);
+                }
+            }
+            else {
+                await reader.skipPadded(size);
+            }
+        }
+
+        if (stampTimes) {
+            // WHY: deepest first - creating entries in a folder updates its timestamp
+            for (const [path, times] of folderTimes.reverse()) {
+                await client.utimes(path, times, options);
+            }
+        }
+    }
+    finally {
+        reader.release();
+    }
+}
+
+/**
+ * Stream one file's data from the archive into the gateway.
+ */
+async function writeEntry(
+    client: OSClient,
+    reader: BlockReader,
+    path: string,
+    size: number,
+    options: CallOptions,
+): Promise<void> {
+    const writer = client.createWriteStream(path, options).getWriter();
+
+    try {
+        for await (const chunk of reader.take(size)) {
+            await writer.write(chunk);
+        }
+
+        await writer.close();
+    }
+    catch (err) {
+        await writer.abort(err).catch(() => {});
+        throw err;
+    }
+
+    await reader.skipPadding(size);
+}
+
+/**
+ * Decode and verify a ustar (or pre-POSIX tar) header block.
+ *
+ * @throws SyscallError (EINVAL) on a bad checksum
+ */
+function decodeHeader(block: Uint8Array): TarHeader {
+    const stored = readOctal(block, 148, 8);
+    let checksum = 0;
+
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        checksum += i >= 148 && i < 156 ? 0x20 : block[i];
+    }
+
+    if (stored !== checksum) {
+        throw new SyscallError('EINVAL', 'Invalid tar header checksum', 'file:write');
+    }
+
+    let name = readString(block, 0, 100);
+    const ustar = readString(block, 257, 6) === 'ustar';
+    const prefix = ustar ? readString(block, 345, 155) : '';
+
+    if (prefix) {
+        name = `${prefix}/${name}`;
+    }
+
+    return {
+        name,
+        type: String.fromCharCode(block[156]),
+        size: readOctal(block, 124, 12),
+        mtime: readOctal(block, 136, 12),
+    };
+}
+
+/**
+ * Decode PAX records into key/value pairs.
+ */
+function decodePax(data: Uint8Array): Record<string, string> {
+    const records: Record<string, string> = {};
+    let offset = 0;
+
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset);
+        const length = Number(decoder.decode(data.subarray(offset, space)));
+
+        if (space === -1 || !length) {
+            break;
+        }
+
+        const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+        const equals = record.indexOf('=');
+
+        records[record.slice(0, equals)] = record.slice(equals + 1);
+        offset += length;
+    }
+
+    return records;
+}
+
+/**
+ * Size of an entry's data: the PAX size record, else the ustar field.
+ *
+ * WHY: a size that is not a whole number of bytes would read no data and
+ * leave the reader out of step with the blocks
+ *
+ * @throws SyscallError (EINVAL) if the size is malformed
+ */
+function entrySize(name: string, records: Record<string, string>, headerSize: number): number {
+    const size = records.size !== undefined ? decimal(records.size) : headerSize;
+
+    if (!Number.isSafeInteger(size) || size < 0) {
+        throw new SyscallError('EINVAL', `Invalid size in tar archive: ${name}`, 'file:write');
+    }
+
+    return size;
+}
+
+/**
+ * Timestamps of an entry: monk.* records, else the (PAX or ustar) mtime.
+ *
+ * @throws SyscallError (EINVAL) if the mtime needed is not a number
+ */
+function entryTimes(name: string, records: Record<string, string>, headerMtime: number): Timestamps {
+    const mtime = records.mtime !== undefined ? Number(records.mtime) : headerMtime;
+    const updated = records[`${MONK_PREFIX}updated_at`];
+
+    if (updated === undefined && !Number.isFinite(mtime)) {
+        throw new SyscallError('EINVAL', `Invalid mtime in tar archive: ${name}`, 'file:write');
+    }
+
+    const times: Timestamps = {
+        updated_at: updated ?? new Date(mtime * 1000),
+    };
+
+    if (records[`${MONK_PREFIX}created_at`] !== undefined) {
+        times.created_at = records[`${MONK_PREFIX}created_at`];
+    }
+
+    return times;
+}
+
+/**
+ * Resolve an entry name beneath root.
+ *
+ * @throws SyscallError (EINVAL) for names that escape root
+ */
+function resolveEntry(root: string, name: string): string {
+    const relative = name.replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+
+    if (relative.startsWith('/') || relative.split('/').includes('..')) {
+        throw new SyscallError('EINVAL', `Unsafe path in tar archive: ${name}`, 'file:write');
+    }
+
+    return posix.join(root, relative);
+}
+
+// =============================================================================
+// BLOCK READER
+// =============================================================================
+
+/**
+ * Reads exact byte counts from a stream of arbitrarily sized chunks.
+ */
+class BlockReader {
+    private readonly chunks: AsyncIterator<Uint8Array>;
+    private pending: Uint8Array = new Uint8Array(0);
+
+    constructor(stream: ReadableStream<Uint8Array>) {
+        this.chunks = stream[Symbol.asyncIterator]();
+    }
+
+    /**
+     * Read exactly length bytes; undefined if the stream is already done.
+     *
+     * @throws SyscallError (EINVAL) if the stream ends part-way
+     */
+    async read(length: number): Promise<Uint8Array | undefined> {
+        const parts: Uint8Array[] = [];
+        let total = 0;
+
+        while (total < length) {
+            const chunk = await this.next(length - total);
+
+            if (!chunk) {
+                if (total === 0) {
+                    return undefined;
+                }
+
+                throw truncated();
+            }
+
+            parts.push(chunk);
+            total += chunk.length;
+        }
+
+        return parts.length === 1 ? parts[0] : concat(parts, total);
+    }
+
+    /**
+     * Read length bytes plus the padding to the next block.
+     */
+    async readPadded(length: number): Promise<Uint8Array> {
+        const data = length > 0 ? await this.read(length) : new Uint8Array(0);
+
+        if (!data) {
+            throw truncated();
+        }
+
+        await this.skipPadding(length);
+
+        return data;
+    }
+
+    /**
+     * Skip length bytes plus the padding to the next block.
+     */
+    async skipPadded(length: number): Promise<void> {
+        await this.skip(length);
+        await this.skipPadding(length);
+    }
+
+    /**
+     * Skip the padding that follows size bytes of data.
+     */
+    async skipPadding(size: number): Promise<void> {
+        await this.skip(padding(size).length);
+    }
+
+    /**
+     * Yield exactly length bytes as they arrive.
+     */
+    async *take(length: number): AsyncGenerator<Uint8Array> {
+        let left = length;
+
+        while (left > 0) {
+            const chunk = await this.next(left);
+
+            if (!chunk) {
+                throw truncated();
+            }
+
+            left -= chunk.length;
+            yield chunk;
+        }
+    }
+
+    /**
+     * Discard length bytes.
+     */
+    private async skip(length: number): Promise<void> {
+        for await (const _ of this.take(length)) {
+            // discard
+        }
+    }
+
+    /**
+     * Release the stream (cancelling whatever is left unread).
+     */
+    release(): void {
+        this.chunks.return?.().catch(() => {});
+    }
+
+    /**
+     * Next piece of at most max bytes; undefined at end of stream.
+     */
+    private async next(max: number): Promise<Uint8Array | undefined> {
+        while (this.pending.length === 0) {
+            const { value, done } = await this.chunks.next();
+
+            if (done) {
+                return undefined;
+            }
+
+            this.pending = value;
+        }
+
+        const piece = this.pending.subarray(0, max);
+
+        this.pending = this.pending.subarray(piece.length);
+
+        return piece;
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Zero bytes padding size bytes to a whole block.
+ */
+function padding(size: number): Uint8Array {
+    return new Uint8Array((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+    block.set(encoder.encode(value.toString(8).padStart(length - 1, '0') + '\0'), offset);
+}
+
+/**
+ * Octal number field (NaN if it holds anything else, e.g. GNU base-256).
+ */
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+    const text = readString(block, offset, length).trim();
+
+    if (!/^[0-7]*$/.test(text)) {
+        return NaN;
+    }
+
+    return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * Decimal number record (NaN if it holds anything else).
+ */
+function decimal(text: string): number {
+    return /^[0-9]+$/.test(text) ? Number(text) : NaN;
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+    const field = block.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+
+    return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function concat(parts: Uint8Array[], total: number): Uint8Array {
+    const result = new Uint8Array(total);
+    let offset = 0;
+
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+
+    return result;
+}
+
+function truncated(): SyscallError {
+    return new SyscallError('EINVAL', 'Unexpected end of tar archive', 'file:write');
+}
@@ -0,0 +1,60 @@
+/**
+ * Timers - Abortable waits for polling, retry loops and long-lived results
+ *
+ * @module timers
+ */
+
+import { AbortError } from './error.js';
+
+/**
+ * Wait ms milliseconds.
+ *
+ * @throws AbortError if the signal is aborted first
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortError(signal.reason));
+
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError(signal!.reason));
+        };
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Settle with a promise, or reject once the signal is aborted.
+ *
+ * The promise itself is not cancelled.
+ *
+ * @throws AbortError if the signal is aborted first
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(new AbortError(signal.reason));
+
+            return;
+        }
+
+        const onAbort = () => reject(new AbortError(signal.reason));
+
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
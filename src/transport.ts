@@ -1,61 +1,131 @@
 /**
- * Transport - Low-level Unix socket communication
+ * Transport - Low-level gateway communication
  *
  * Handles connection management, message framing (length-prefixed MessagePack),
- * and request/response correlation.
+ * and request/response correlation. The bytes travel over a pluggable
+ * Connector (Unix socket, TCP, WebSocket). Each new connection runs the
+ * handshake (authentication, hello) before it accepts requests.
  *
  * @module transport
  */
 
-import { pack, unpack } from 'msgpackr';
-import type { Request, Response, ConnectOptions, ConnectionState } from './types.js';
-import { isTerminal } from './types.js';
-import { ConnectionError, TimeoutError } from './error.js';
+import type {
+    Capabilities,
+    EventResponse,
+    Request,
+    Response,
+    ConnectOptions,
+    ConnectionState,
+    ReconnectOptions,
+    RequestOptions,
+} from './types.js';
+import { isEvent, isProgress, isTerminal } from './types.js';
+import { ConnectionError, TimeoutError, AbortError } from './error.js';
+import { encodeFrame, FrameDecoder } from './frame.js';
+import type { Connection, Connector } from './connector.js';
+import { createConnector } from './connector.js';
+import { authenticate, hello } from './handshake.js';
 
 // =============================================================================
-// SOCKET TYPES
+// CONSTANTS
 // =============================================================================
 
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
 /**
- * Socket data stored per connection.
+ * Syscall used to tell the gateway to stop producing responses for a request.
  */
-interface SocketData {
-    buffer: Uint8Array;
-}
+const CANCEL_SYSCALL = 'sys:cancel';
 
 /**
- * Socket type from Bun.connect.
+ * Default reconnect policy (used when `reconnect: true`).
  */
-type BunSocket = Awaited<ReturnType<typeof Bun.connect<SocketData>>>;
-
-// =============================================================================
-// CONSTANTS
-// =============================================================================
+const DEFAULT_RECONNECT: Required<Omit<ReconnectOptions, 'replay'>> = {
+    maxAttempts: 10,
+    initialDelay: 100,
+    maxDelay: 10000,
+    factor: 2,
+    jitter: 0.2,
+};
 
-const DEFAULT_SOCKET_PATH = '/tmp/monk.sock';
-const DEFAULT_TIMEOUT = 5000;
+/**
+ * Syscalls that are safe to re-send after a reconnect.
+ *
+ * WHY: These only read state addressed by path or model, so sending them
+ * twice cannot change the outcome. Anything that depends on a file
+ * descriptor or mutates state must not be replayed.
+ */
+const REPLAYABLE_SYSCALLS = new Set([
+    'file:stat',
+    'file:readdir',
+    'ems:select',
+    'proc:getcwd',
+    'proc:getpid',
+    'proc:getppid',
+    'proc:getenv',
+]);
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+/**
+ * Resolved reconnect policy.
+ */
+interface ReconnectPolicy {
+    maxAttempts: number;
+    initialDelay: number;
+    maxDelay: number;
+    factor: number;
+    jitter: number;
+    replay: Set<string>;
+}
+
 /**
  * Pending request waiting for response(s).
+ *
+ * Every in-flight request (from send() or stream()) has exactly one entry
+ * in the dispatch table, keyed by request ID. onResponse routes each
+ * incoming response to its entry's deliver() handler.
  */
 interface PendingRequest {
-    /** Resolve promise with responses */
-    resolve: (responses: Response[]) => void;
+    /** Original request (kept for replay after reconnect) */
+    request: Request;
+
+    /** Whether the request has been written to the current connection */
+    sent: boolean;
+
+    /** Whether responses are handed to a stream consumer as they arrive */
+    streaming: boolean;
 
-    /** Reject promise with error */
-    reject: (error: Error) => void;
+    /** Number of responses received so far */
+    received: number;
 
-    /** Collected responses */
+    /** Handle a response routed to this request */
+    deliver: (response: Response) => void;
+
+    /** Fail the request (connection loss, write error) */
+    fail: (error: Error) => void;
+
+    /** Collected responses (send() only; reset on replay) */
     responses: Response[];
 
     /** Timeout timer */
     timer?: ReturnType<typeof setTimeout>;
 }
 
+/**
+ * Consumer of unsolicited events (one per events() iterator).
+ */
+interface EventSubscriber {
+    /** Handle an event not routed to any request */
+    deliver: (event: EventResponse) => void;
+
+    /** End the subscription (connection closed for good) */
+    fail: (error: Error) => void;
+}
+
 // =============================================================================
 // TRANSPORT CLASS
 // =============================================================================
@@ -64,10 +134,11 @@ interface PendingRequest {
  * Low-level transport for gateway communication.
  *
  * Handles:
- * - Unix socket connection lifecycle
+ * - Connection lifecycle over any Connector (unix, tcp, ws)
  * - Length-prefixed MessagePack framing
- * - Request/response correlation by ID
- * - Streaming responses (multiple items before done)
+ * - Request/response correlation by ID (one dispatch table for all requests)
+ * - Streaming responses (multiple items before done, any number concurrently)
+ * - Optional reconnection with replay of idempotent requests
  *
  * @example
  * const transport = new Transport();
@@ -89,15 +160,33 @@ export class Transport {
     /** Current connection state */
     private state: ConnectionState = 'disconnected';
 
-    /** Socket connection */
-    private socket?: BunSocket;
+    /** Open connection */
+    private connection?: Connection;
 
-    /** Pending requests by ID */
+    /** Dispatch table: pending requests by ID */
     private pending = new Map<string, PendingRequest>();
 
     /** Request ID counter */
     private nextId = 1;
 
+    /** Options from the last connect() (reused when reconnecting) */
+    private options: ConnectOptions = {};
+
+    /** Backend for the last connect() (reused when reconnecting) */
+    private connector?: Connector;
+
+    /** Reconnect policy (undefined when reconnect is disabled) */
+    private reconnectPolicy?: ReconnectPolicy;
+
+    /** Timer for the next reconnect attempt */
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+    /** Gateway capabilities from the last hello (undefined if unknown) */
+    private capabilities?: Capabilities;
+
+    /** Active events() iterators */
+    private subscribers = new Set<EventSubscriber>();
+
     // =========================================================================
     // PUBLIC ACCESSORS
     // =========================================================================
@@ -116,6 +205,15 @@ export class Transport {
         return this.state === 'connected';
     }
 
+    /**
+     * Get gateway capabilities from the handshake.
+     *
+     * Undefined before connecting and for gateways predating sys:hello.
+     */
+    getCapabilities(): Capabilities | undefined {
+        return this.capabilities;
+    }
+
     /**
      * Generate unique request ID.
      */
@@ -131,21 +229,23 @@ export class Transport {
      * Connect to gateway.
      *
      * @param options - Connection options
-     * @throws ConnectionError if connection fails
-     * @throws TimeoutError if connection times out
+     * @throws ConnectionError if connection fails or the address is invalid
+     * @throws ConnectionError (EACCES) if the gateway rejects authentication
+     * @throws ConnectionError (EPROTO) if the gateway speaks another protocol
+     * @throws TimeoutError if connection or handshake times out
      */
     async connect(options: ConnectOptions = {}): Promise<void> {
         if (this.state !== 'disconnected') {
             throw new ConnectionError('EISCONN', 'Already connected or connecting');
         }
 
-        const socketPath = options.socketPath ?? DEFAULT_SOCKET_PATH;
-        const timeout = options.timeout ?? DEFAULT_TIMEOUT;
-
+        this.connector = createConnector(options);
+        this.options = options;
+        this.reconnectPolicy = resolveReconnectPolicy(options.reconnect);
         this.state = 'connecting';
 
         try {
-            await this.connectWithTimeout(socketPath, timeout);
+            await this.establish();
             this.state = 'connected';
         }
         catch (err) {
@@ -154,43 +254,99 @@ export class Transport {
         }
     }
 
+    /**
+     * Open a connection and run the handshake on it.
+     *
+     * On handshake failure the new connection is closed.
+     */
+    private async establish(): Promise<void> {
+        await this.connectWithTimeout();
+
+        try {
+            await this.handshake();
+        }
+        catch (err) {
+            const connection = this.connection;
+
+            this.connection = undefined;
+            connection?.close();
+            throw err;
+        }
+    }
+
+    /**
+     * Run the handshake exchange on a freshly opened connection.
+     *
+     * WHY: requests bypass send() - the state is not connected yet, and
+     * callers' requests must stay queued until the handshake succeeds.
+     */
+    private async handshake(): Promise<void> {
+        const { auth } = this.options;
+        const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+
+        const exchange = async (call: string, args: unknown[]) => {
+            const request = { id: this.generateId(), call, args };
+            const responses = await this.dispatch(request, { timeout }, true);
+
+            return responses[responses.length - 1];
+        };
+
+        if (auth) {
+            await authenticate(exchange, auth);
+        }
+
+        // WHY: re-learned on reconnect - the gateway may have been upgraded
+        this.capabilities = await hello(exchange);
+    }
+
     /**
      * Connect with timeout.
      */
-    private async connectWithTimeout(socketPath: string, timeout: number): Promise<void> {
+    private async connectWithTimeout(): Promise<void> {
+        const connector = this.connector!;
+        const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+
         return new Promise((resolve, reject) => {
+            const decoder = new FrameDecoder();
+            let connection: Connection | undefined;
+            let timedOut = false;
+
             const timer = setTimeout(() => {
-                reject(new TimeoutError(`Connection to ${socketPath} timed out after ${timeout}ms`));
+                timedOut = true;
+                reject(new TimeoutError(`Connection to ${connector.address} timed out after ${timeout}ms`));
             }, timeout);
 
-            Bun.connect<SocketData>({
-                unix: socketPath,
-                data: { buffer: new Uint8Array(0) },
-                socket: {
-                    data: (socket, data) => {
-                        this.onData(socket, data);
-                    },
-                    open: (socket) => {
-                        clearTimeout(timer);
-                        this.socket = socket;
-                        resolve();
-                    },
-                    close: () => {
-                        this.onClose();
-                    },
-                    error: (_socket, error) => {
-                        clearTimeout(timer);
-                        reject(new ConnectionError('ECONNREFUSED', error.message));
-                    },
-                    connectError: (_socket, error) => {
-                        clearTimeout(timer);
-                        reject(new ConnectionError('ECONNREFUSED', error.message));
-                    },
+            connector.connect({
+                data: (chunk) => {
+                    this.onData(decoder, chunk);
+                },
+                close: () => {
+                    if (connection) {
+                        this.onClose(connection);
+                    }
+                },
+            }).then(
+                (opened) => {
+                    clearTimeout(timer);
+
+                    // Connection opened after we gave up - discard it
+                    if (timedOut) {
+                        opened.close();
+
+                        return;
+                    }
+
+                    connection = opened;
+                    this.connection = opened;
+                    resolve();
+                },
+                (err) => {
+                    clearTimeout(timer);
+                    reject(err instanceof ConnectionError
+                        ? err
+                        : new ConnectionError('ECONNREFUSED', (err as Error).message));
                 },
-            }).catch((err) => {
-                clearTimeout(timer);
-                reject(new ConnectionError('ECONNREFUSED', err.message));
-            });
+            );
         });
     }
 
@@ -198,22 +354,21 @@ export class Transport {
      * Close connection.
      */
     close(): void {
-        if (this.socket) {
-            this.socket.end();
-            this.socket = undefined;
-        }
-
-        this.state = 'disconnected';
+        const connection = this.connection;
 
-        // Reject all pending requests
-        for (const [id, pending] of this.pending) {
-            if (pending.timer) {
-                clearTimeout(pending.timer);
-            }
+        // WHY: Clear before close() so the close callback recognizes this
+        // connection as intentionally closed and does not try to reconnect
+        this.connection = undefined;
+        connection?.close();
 
-            pending.reject(new ConnectionError('ECONNRESET', 'Connection closed'));
-            this.pending.delete(id);
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
         }
+
+        this.state = 'disconnected';
+        this.capabilities = undefined;
+        this.rejectPending(new ConnectionError('ECONNRESET', 'Connection closed'));
     }
 
     // =========================================================================
@@ -224,60 +379,160 @@ export class Transport {
      * Send request and collect all responses.
      *
      * Waits for a terminal response (ok, error, done, redirect) before resolving.
+     * While reconnecting, the request is queued and sent once the connection
+     * is restored.
      *
      * @param request - Request to send
-     * @param timeout - Response timeout in ms (default: 30000)
+     * @param options - Response timeout (default: 30000ms) and abort signal;
+     *                  a bare number is the timeout, as in earlier releases
      * @returns All responses (may be multiple for streaming syscalls)
      * @throws ConnectionError if not connected
      * @throws TimeoutError if no response within timeout
+     * @throws AbortError if the signal is aborted
      */
-    async send(request: Request, timeout = 30000): Promise<Response[]> {
-        if (!this.socket || this.state !== 'connected') {
+    async send(request: Request, options: number | RequestOptions = {}): Promise<Response[]> {
+        if (!this.canSend()) {
             throw new ConnectionError('ENOTCONN', 'Not connected');
         }
 
+        const resolved = typeof options === 'number' ? { timeout: options } : options;
+
+        // Queued until reconnected
+        return this.dispatch(request, resolved, this.state !== 'reconnecting');
+    }
+
+    /**
+     * Register a request in the dispatch table and optionally write it.
+     *
+     * Unwritten requests stay queued until replayPending().
+     */
+    private dispatch(request: Request, options: RequestOptions, write: boolean): Promise<Response[]> {
+        const { signal } = options;
+        const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+
+        if (signal?.aborted) {
+            return Promise.reject(new AbortError(signal.reason));
+        }
+
         return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.abandon(pending);
+                reject(new AbortError(signal!.reason));
+            };
+
+            const settle = () => {
+                signal?.removeEventListener('abort', onAbort);
+            };
+
             // Set up pending request
             const pending: PendingRequest = {
-                resolve,
-                reject,
+                request,
+                sent: false,
+                streaming: false,
+                received: 0,
+                deliver: (response) => {
+                    if (isProgress(response)) {
+                        options.onProgress?.(response.data ?? {});
+                    }
+
+                    pending.responses.push(response);
+
+                    if (isTerminal(response)) {
+                        settle();
+                        resolve(pending.responses);
+                    }
+                },
+                fail: (err) => {
+                    settle();
+                    reject(err);
+                },
                 responses: [],
                 timer: setTimeout(() => {
-                    this.pending.delete(request.id);
+                    settle();
+                    this.abandon(pending);
                     reject(new TimeoutError(`Request ${request.id} timed out after ${timeout}ms`));
                 }, timeout),
             };
 
             this.pending.set(request.id, pending);
+            signal?.addEventListener('abort', onAbort, { once: true });
 
-            // Send request as length-prefixed msgpack
-            try {
-                this.socket!.write(this.encodeFrame(request));
+            if (write) {
+                this.writePending(pending);
             }
-            catch (err) {
-                this.pending.delete(request.id);
+        });
+    }
 
-                if (pending.timer) {
-                    clearTimeout(pending.timer);
-                }
+    /**
+     * Check whether requests can be accepted in the current state.
+     */
+    private canSend(): boolean {
+        return (this.state === 'connected' && this.connection !== undefined) ||
+               this.state === 'reconnecting';
+    }
 
-                reject(new ConnectionError('EIO', (err as Error).message));
+    /**
+     * Write a pending request to the connection.
+     *
+     * On write failure the request is removed and rejected.
+     */
+    private writePending(pending: PendingRequest): void {
+        try {
+            this.connection!.write(encodeFrame(pending.request));
+            pending.sent = true;
+        }
+        catch (err) {
+            this.pending.delete(pending.request.id);
+
+            if (pending.timer) {
+                clearTimeout(pending.timer);
             }
-        });
+
+            pending.fail(new ConnectionError('EIO', (err as Error).message));
+        }
     }
 
     /**
-     * Encode a message as a length-prefixed msgpack frame.
+     * Stop waiting for a request and tell the gateway to stop responding.
+     *
+     * Removes the pending entry without settling it; the caller settles.
      */
-    private encodeFrame(message: unknown): Uint8Array {
-        const payload = pack(message);
-        const frame = new Uint8Array(4 + payload.length);
-        const view = new DataView(frame.buffer);
+    private abandon(pending: PendingRequest): void {
+        if (pending.timer) {
+            clearTimeout(pending.timer);
+        }
 
-        view.setUint32(0, payload.length);
-        frame.set(payload, 4);
+        this.pending.delete(pending.request.id);
 
-        return frame;
+        if (pending.sent) {
+            this.cancel(pending.request.id);
+        }
+    }
+
+    /**
+     * Tell the gateway to stop producing responses for a request ID.
+     */
+    private cancel(id: string): void {
+        this.post(CANCEL_SYSCALL, [id]);
+    }
+
+    /**
+     * Send a request without waiting for its response.
+     *
+     * Fire-and-forget: the gateway's reply has no pending entry and is
+     * dropped by onResponse. Does nothing unless connected.
+     */
+    post(call: string, args: unknown[]): void {
+        if (!this.connection || this.state !== 'connected') {
+            return;
+        }
+
+        try {
+            this.connection.write(encodeFrame({ id: this.generateId(), call, args }));
+        }
+        catch {
+            // Connection is going away - nothing left to tell the gateway
+        }
     }
 
     /**
@@ -286,166 +541,214 @@ export class Transport {
      * Use this for streaming syscalls where you want to process items
      * as they come in rather than waiting for all of them.
      *
+     * If iteration stops before a terminal response (break, throw or abort),
+     * the gateway is told to stop producing responses for the request.
+     *
      * @param request - Request to send
+     * @param options - Abort signal (timeout is not applied to streams)
      * @yields Response objects as they arrive
      * @throws ConnectionError if not connected
+     * @throws AbortError if the signal is aborted
      */
-    async *stream(request: Request): AsyncIterable<Response> {
-        if (!this.socket || this.state !== 'connected') {
+    async *stream(request: Request, options: RequestOptions = {}): AsyncIterable<Response> {
+        if (!this.canSend()) {
             throw new ConnectionError('ENOTCONN', 'Not connected');
         }
 
-        // WHY: Use a queue + resolver pattern for async iteration
-        // Each response is pushed to the queue, and the iterator pulls from it
+        const { signal } = options;
+
+        if (signal?.aborted) {
+            throw new AbortError(signal.reason);
+        }
+
+        // WHY: Use a queue + waiter pattern for async iteration
+        // The dispatch table pushes responses onto the queue, and the iterator
+        // pulls from it. Other requests are routed independently, so any
+        // number of streams can be in flight at once.
         const queue: Response[] = [];
-        let resolver: ((value: IteratorResult<Response>) => void) | null = null;
+        let wake: (() => void) | null = null;
         let error: Error | null = null;
-        let done = false;
-
-        // Register handler for this request ID
-        const handler = (response: Response) => {
-            if (isTerminal(response)) {
-                done = true;
-            }
+        let finished = false;
 
-            if (resolver) {
-                resolver({ value: response, done: false });
-                resolver = null;
-            }
-            else {
-                queue.push(response);
+        const notify = () => {
+            if (wake) {
+                wake();
+                wake = null;
             }
         };
 
-        const errorHandler = (err: Error) => {
-            error = err;
-
-            if (resolver) {
-                resolver({ value: undefined as unknown as Response, done: true });
-                resolver = null;
-            }
-        };
+        const entry: PendingRequest = {
+            request,
+            sent: false,
+            streaming: true,
+            received: 0,
+            deliver: (response) => {
+                if (isTerminal(response)) {
+                    finished = true;
+                }
 
-        // Store handlers
-        this.pending.set(request.id, {
-            resolve: () => {},
-            reject: errorHandler,
+                queue.push(response);
+                notify();
+            },
+            fail: (err) => {
+                error = err;
+                notify();
+            },
             responses: [],
-        });
-
-        // Override to use our handler
-        const originalOnResponse = this.onResponse.bind(this);
+        };
 
-        this.onResponse = (response: Response) => {
-            if (response.id === request.id) {
-                handler(response);
-            }
-            else {
-                originalOnResponse(response);
-            }
+        const onAbort = () => {
+            entry.fail(new AbortError(signal!.reason));
         };
 
+        this.pending.set(request.id, entry);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
         try {
-            // Send request as length-prefixed msgpack
-            this.socket!.write(this.encodeFrame(request));
+            // Queued until reconnected
+            if (this.state === 'connected') {
+                this.writePending(entry);
+            }
 
             // Iterate responses
-            while (!done && !error) {
+            while (true) {
+                if (error) {
+                    throw error;
+                }
+
                 if (queue.length > 0) {
                     const response = queue.shift()!;
 
                     yield response;
 
                     if (isTerminal(response)) {
-                        break;
+                        return;
                     }
-                }
-                else {
-                    // Wait for next response
-                    const result = await new Promise<IteratorResult<Response>>((resolve) => {
-                        resolver = resolve;
-                    });
-
-                    if (result.done) {
-                        break;
-                    }
-
-                    yield result.value;
 
-                    if (isTerminal(result.value)) {
-                        break;
-                    }
+                    continue;
                 }
-            }
 
-            if (error) {
-                throw error;
+                // Wait for next response
+                await new Promise<void>((resolve) => {
+                    wake = resolve;
+                });
             }
         }
         finally {
-            // Restore original handler
-            this.onResponse = originalOnResponse;
-            this.pending.delete(request.id);
+            signal?.removeEventListener('abort', onAbort);
+
+            // Consumer stopped early - gateway would keep streaming otherwise
+            if (!finished) {
+                this.abandon(entry);
+            }
         }
     }
 
-    // =========================================================================
-    // SOCKET HANDLERS
-    // =========================================================================
-
     /**
-     * Handle incoming data from socket.
+     * Iterate unsolicited events (event responses not tied to a request).
+     *
+     * Keeps listening across reconnects; ends with an error when the
+     * connection is closed for good.
+     *
+     * @throws ConnectionError if not connected, or once disconnected
+     * @throws AbortError if the signal is aborted
      */
-    private onData(socket: BunSocket, data: Buffer): void {
-        // Append to binary buffer
-        const newBuffer = new Uint8Array(socket.data.buffer.length + data.length);
-
-        newBuffer.set(socket.data.buffer);
-        newBuffer.set(new Uint8Array(data), socket.data.buffer.length);
-        socket.data.buffer = newBuffer;
-
-        // Process complete messages (4-byte length prefix + payload)
-        while (socket.data.buffer.length >= 4) {
-            const view = new DataView(
-                socket.data.buffer.buffer,
-                socket.data.buffer.byteOffset,
-            );
-            const msgLength = view.getUint32(0);
+    async *events(options: RequestOptions = {}): AsyncIterable<EventResponse> {
+        if (!this.canSend()) {
+            throw new ConnectionError('ENOTCONN', 'Not connected');
+        }
 
-            // Wait for complete message
-            if (socket.data.buffer.length < 4 + msgLength) {
-                break;
+        const { signal } = options;
+
+        if (signal?.aborted) {
+            throw new AbortError(signal.reason);
+        }
+
+        const queue: EventResponse[] = [];
+        let wake: (() => void) | null = null;
+        let error: Error | null = null;
+
+        const notify = () => {
+            if (wake) {
+                wake();
+                wake = null;
             }
+        };
 
-            // Extract and decode message
-            const payload = socket.data.buffer.slice(4, 4 + msgLength);
+        const subscriber: EventSubscriber = {
+            deliver: (event) => {
+                queue.push(event);
+                notify();
+            },
+            fail: (err) => {
+                error = err;
+                notify();
+            },
+        };
 
-            socket.data.buffer = socket.data.buffer.slice(4 + msgLength);
+        const onAbort = () => {
+            subscriber.fail(new AbortError(signal!.reason));
+        };
 
-            try {
-                const response = unpack(payload) as Response;
+        this.subscribers.add(subscriber);
+        signal?.addEventListener('abort', onAbort, { once: true });
 
-                this.onResponse(response);
-            }
-            catch {
-                // Invalid msgpack - ignore
+        try {
+            while (true) {
+                if (error) {
+                    throw error;
+                }
+
+                if (queue.length > 0) {
+                    yield queue.shift()!;
+                    continue;
+                }
+
+                await new Promise<void>((resolve) => {
+                    wake = resolve;
+                });
             }
         }
+        finally {
+            signal?.removeEventListener('abort', onAbort);
+            this.subscribers.delete(subscriber);
+        }
+    }
+
+    // =========================================================================
+    // CONNECTION HANDLERS
+    // =========================================================================
+
+    /**
+     * Handle incoming data from the connection.
+     */
+    private onData(decoder: FrameDecoder, data: Uint8Array): void {
+        for (const message of decoder.push(data)) {
+            this.onResponse(message as Response);
+        }
     }
 
     /**
      * Handle response message.
      *
-     * Routes response to pending request by ID.
+     * Routes response to pending request by ID. Events for no pending
+     * request go to events() subscribers; anything else unroutable is
+     * dropped.
      */
     private onResponse(response: Response): void {
         const pending = this.pending.get(response.id);
 
         if (!pending) {
+            if (isEvent(response)) {
+                for (const subscriber of this.subscribers) {
+                    subscriber.deliver(response);
+                }
+            }
+
             return;
         }
 
-        pending.responses.push(response);
+        pending.received++;
 
         // Terminal responses complete the request
         if (isTerminal(response)) {
@@ -454,25 +757,204 @@ export class Transport {
             }
 
             this.pending.delete(response.id);
-            pending.resolve(pending.responses);
         }
+
+        pending.deliver(response);
     }
 
     /**
-     * Handle socket close.
+     * Handle connection close.
+     *
+     * With a reconnect policy, replayable requests are kept and the
+     * connection is re-established in the background. Everything else
+     * is rejected with ECONNRESET.
      */
-    private onClose(): void {
-        this.socket = undefined;
-        this.state = 'disconnected';
+    private onClose(connection: Connection): void {
+        // Ignore connections we already closed or replaced
+        if (connection !== this.connection) {
+            return;
+        }
+
+        this.connection = undefined;
+
+        // Dropped during a reconnect handshake - the attempt fails and the
+        // next one is scheduled by scheduleReconnect()
+        if (this.state === 'reconnecting') {
+            this.failUnreplayable();
+
+            return;
+        }
+
+        if (!this.reconnectPolicy || this.state !== 'connected') {
+            this.state = 'disconnected';
+            this.rejectPending(new ConnectionError('ECONNRESET', 'Connection closed'));
+
+            return;
+        }
+
+        this.state = 'reconnecting';
+        this.failUnreplayable();
+        this.scheduleReconnect(1);
+    }
+
+    // =========================================================================
+    // RECONNECTION
+    // =========================================================================
+
+    /**
+     * Check whether a pending request can survive a dropped connection.
+     *
+     * Unsent requests are always kept. Sent requests are kept only if the
+     * syscall is idempotent and no responses have been handed to a stream
+     * consumer yet (re-sending would otherwise duplicate items).
+     */
+    private isReplayable(pending: PendingRequest): boolean {
+        if (!pending.sent) {
+            return true;
+        }
+
+        if (!this.reconnectPolicy!.replay.has(pending.request.call)) {
+            return false;
+        }
+
+        return !pending.streaming || pending.received === 0;
+    }
 
-        // Reject all pending requests
+    /**
+     * Reject pending requests that cannot survive the dropped connection.
+     */
+    private failUnreplayable(): void {
         for (const [id, pending] of this.pending) {
+            if (this.isReplayable(pending)) {
+                continue;
+            }
+
             if (pending.timer) {
                 clearTimeout(pending.timer);
             }
 
-            pending.reject(new ConnectionError('ECONNRESET', 'Connection closed'));
+            pending.fail(new ConnectionError('ECONNRESET', 'Connection closed'));
             this.pending.delete(id);
         }
     }
+
+    /**
+     * Schedule a reconnect attempt with exponential backoff.
+     *
+     * A rejected handshake (EACCES) stops retrying: the credentials will
+     * not get better by themselves.
+     */
+    private scheduleReconnect(attempt: number): void {
+        const policy = this.reconnectPolicy!;
+
+        if (attempt > policy.maxAttempts) {
+            this.state = 'disconnected';
+            this.rejectPending(new ConnectionError(
+                'ECONNRESET',
+                `Reconnect failed after ${policy.maxAttempts} attempts`,
+            ));
+
+            return;
+        }
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = undefined;
+
+            try {
+                await this.establish();
+            }
+            catch (err) {
+                if (this.state !== 'reconnecting') {
+                    return;
+                }
+
+                if (err instanceof ConnectionError && err.code === 'EACCES') {
+                    this.state = 'disconnected';
+                    this.rejectPending(err);
+
+                    return;
+                }
+
+                this.scheduleReconnect(attempt + 1);
+
+                return;
+            }
+
+            // Closed while the attempt was in flight
+            if (this.state !== 'reconnecting') {
+                const connection = this.connection;
+
+                this.connection = undefined;
+                connection?.close();
+
+                return;
+            }
+
+            this.state = 'connected';
+            this.replayPending();
+        }, backoffDelay(policy, attempt));
+    }
+
+    /**
+     * Re-send queued and replayable requests on the new connection.
+     */
+    private replayPending(): void {
+        for (const pending of [...this.pending.values()]) {
+            pending.responses = [];
+            pending.received = 0;
+            this.writePending(pending);
+        }
+    }
+
+    /**
+     * Reject and remove all pending requests and end event subscriptions.
+     */
+    private rejectPending(error: Error): void {
+        for (const [id, pending] of this.pending) {
+            if (pending.timer) {
+                clearTimeout(pending.timer);
+            }
+
+            pending.fail(error);
+            this.pending.delete(id);
+        }
+
+        for (const subscriber of this.subscribers) {
+            subscriber.fail(error);
+        }
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Resolve reconnect option into a policy with defaults applied.
+ */
+function resolveReconnectPolicy(option: ConnectOptions['reconnect']): ReconnectPolicy | undefined {
+    if (!option) {
+        return undefined;
+    }
+
+    const overrides = option === true ? {} : option;
+
+    return {
+        maxAttempts: overrides.maxAttempts ?? DEFAULT_RECONNECT.maxAttempts,
+        initialDelay: overrides.initialDelay ?? DEFAULT_RECONNECT.initialDelay,
+        maxDelay: overrides.maxDelay ?? DEFAULT_RECONNECT.maxDelay,
+        factor: overrides.factor ?? DEFAULT_RECONNECT.factor,
+        jitter: overrides.jitter ?? DEFAULT_RECONNECT.jitter,
+        replay: new Set([...REPLAYABLE_SYSCALLS, ...(overrides.replay ?? [])]),
+    };
+}
+
+/**
+ * Compute delay before a reconnect attempt (1-based).
+ */
+function backoffDelay(policy: Omit<ReconnectPolicy, 'replay'>, attempt: number): number {
+    const base = Math.min(policy.maxDelay, policy.initialDelay * policy.factor ** (attempt - 1));
+    const spread = base * policy.jitter;
+
+    return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
 }
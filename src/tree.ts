@@ -0,0 +1,390 @@
+/**
+ * Tree - Recursive directory operations
+ *
+ * walk, glob, mkdirp and rmrf built from single-entry syscalls
+ * (file:readdir, file:stat, file:mkdir, file:unlink, file:rmdir).
+ *
+ * Each operation shares one limiter across the whole tree, so no more
+ * than `concurrency` syscalls are in flight however wide or deep the
+ * tree is.
+ *
+ * @module tree
+ */
+
+import { posix } from 'node:path';
+import type { OSClient } from './client.js';
+import type { CallOptions, GlobOptions, TreeOptions, WalkEntry, WalkOptions } from './types.js';
+import { FOLDER_MODEL } from './types.js';
+import { SyscallError } from './error.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Default number of syscalls a tree operation keeps in flight.
+ */
+export const DEFAULT_CONCURRENCY = 8;
+
+/**
+ * Pattern segment `**`: matches zero or more path segments.
+ */
+const GLOBSTAR = Symbol('globstar');
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Runs a task once fewer than the limit are running.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Compiled glob: one matcher per path segment.
+ */
+type GlobSegments = (RegExp | typeof GLOBSTAR)[];
+
+// =============================================================================
+// WALK
+// =============================================================================
+
+/**
+ * Walk a directory tree depth-first, folders before their contents.
+ *
+ * The root itself is not yielded. Entries of one directory are stat'ed
+ * concurrently and yielded in listing order.
+ */
+export async function* walk(client: OSClient, root: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+    yield* walkDirectory(client, root, 1, options, createLimiter(options.concurrency));
+}
+
+async function* walkDirectory(
+    client: OSClient,
+    dir: string,
+    depth: number,
+    options: WalkOptions,
+    limit: Limiter,
+): AsyncGenerator<WalkEntry> {
+    const entries = await limit(() => client.readdirSync(dir, options));
+    const items = await Promise.all(entries.map(entry => {
+        const path = posix.join(dir, entry.name);
+
+        return limit(async () => ({ path, entry, stat: await client.stat(path, options) }));
+    }));
+
+    for (const item of items) {
+        if (options.filter && !options.filter(item)) {
+            continue;
+        }
+
+        yield item;
+
+        if (item.entry.model === FOLDER_MODEL && depth < (options.depth ?? Infinity)) {
+            yield* walkDirectory(client, item.path, depth + 1, options, limit);
+        }
+    }
+}
+
+// =============================================================================
+// GLOB
+// =============================================================================
+
+/**
+ * Find paths matching a glob pattern.
+ *
+ * Supports `**` (any number of segments), `*` (any characters within a
+ * segment, including a leading dot), `?` (one character) and braces
+ * (`{a,b}`, nestable). Only folders that can still lead to a match are
+ * listed.
+ *
+ * @returns Matching paths in walk order
+ */
+export async function glob(client: OSClient, pattern: string, options: GlobOptions = {}): Promise<string[]> {
+    const absolute = pattern.startsWith('/') ? pattern : posix.join(options.cwd ?? '/', pattern);
+    const expansions = expandBraces(absolute).map(expansion => expansion.split('/').filter(Boolean));
+
+    // Patterns without wildcards name at most one path each
+    if (expansions.every(segments => !segments.some(isMagic))) {
+        return literalMatches(client, expansions.map(segments => `/${segments.join('/')}`), options);
+    }
+
+    const compiled = expansions.map(compileSegments);
+    const baseLength = staticPrefixLength(expansions);
+    const base = `/${expansions[0].slice(0, baseLength).join('/')}`;
+    const depth = compiled.some(segments => segments.includes(GLOBSTAR))
+        ? Infinity
+        : Math.max(...compiled.map(segments => segments.length)) - baseLength;
+
+    const matches = (path: string, partial: boolean) => {
+        const parts = path.split('/').filter(Boolean);
+
+        return compiled.some(segments => matchSegments(parts, 0, segments, 0, partial));
+    };
+
+    const results: string[] = [];
+
+    try {
+        for await (const { path, entry } of walk(client, base, {
+            ...options,
+            depth,
+            filter: ({ path, entry }) => matches(path, entry.model === FOLDER_MODEL),
+        })) {
+            if (entry.model !== FOLDER_MODEL || matches(path, false)) {
+                results.push(path);
+            }
+        }
+    }
+    catch (err) {
+        // A missing base directory simply matches nothing
+        if (err instanceof SyscallError && (err.code === 'ENOENT' || err.code === 'ENOTDIR')) {
+            return results;
+        }
+
+        throw err;
+    }
+
+    return results;
+}
+
+/**
+ * Expand brace alternatives: `/a/{b,c{d,e}}` -> `/a/b`, `/a/cd`, `/a/ce`.
+ *
+ * Braces without a top-level comma are kept literally.
+ */
+export function expandBraces(pattern: string): string[] {
+    const open = pattern.indexOf('{');
+
+    if (open === -1) {
+        return [pattern];
+    }
+
+    const commas: number[] = [];
+    let depth = 0;
+
+    for (let i = open; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '{') {
+            depth++;
+        }
+        else if (char === ',' && depth === 1) {
+            commas.push(i);
+        }
+        else if (char === '}' && --depth === 0) {
+            if (commas.length === 0) {
+                return expandBraces(pattern.slice(i + 1)).map(rest => pattern.slice(0, i + 1) + rest);
+            }
+
+            const bounds = [open, ...commas, i];
+            const head = pattern.slice(0, open);
+            const tail = pattern.slice(i + 1);
+
+            return bounds.slice(1).flatMap((end, k) =>
+                expandBraces(head + pattern.slice(bounds[k] + 1, end) + tail));
+        }
+    }
+
+    // Unbalanced: no expansion
+    return [pattern];
+}
+
+/**
+ * Check each literal path for existence.
+ */
+async function literalMatches(client: OSClient, paths: string[], options: TreeOptions): Promise<string[]> {
+    const limit = createLimiter(options.concurrency);
+    const found = await Promise.all(paths.map(path => limit(() => client.exists(path, options))));
+
+    return [...new Set(paths.filter((_, i) => found[i]))];
+}
+
+/**
+ * Check whether a pattern segment contains wildcards.
+ */
+function isMagic(segment: string): boolean {
+    return /[*?]/.test(segment);
+}
+
+/**
+ * Number of leading literal segments shared by all expansions, leaving
+ * at least one segment to match.
+ */
+function staticPrefixLength(expansions: string[][]): number {
+    const first = expansions[0];
+    let length = 0;
+
+    while (
+        length < first.length &&
+        !isMagic(first[length]) &&
+        expansions.every(segments => length < segments.length - 1 && segments[length] === first[length])
+    ) {
+        length++;
+    }
+
+    return length;
+}
+
+/**
+ * Compile pattern segments to per-segment matchers.
+ */
+function compileSegments(segments: string[]): GlobSegments {
+    return segments.map(segment => {
+        if (segment === '**') {
+            return GLOBSTAR;
+        }
+
+        let source = '';
+
+        for (const char of segment) {
+            source += char === '*' ? '[^/]*' : char === '?' ? '[^/]' : char.replace(/[.+^${}()|[\]\\]/, '\\$&');
+        }
+
+        return new RegExp(`^${source}$`);
+    });
+}
+
+/**
+ * Match path segments against a compiled pattern.
+ *
+ * With partial, a path that runs out first matches if the pattern could
+ * still match something beneath it (used to prune folders).
+ */
+function matchSegments(path: string[], pi: number, pattern: GlobSegments, qi: number, partial: boolean): boolean {
+    if (pi === path.length) {
+        return partial || pattern.slice(qi).every(segment => segment === GLOBSTAR);
+    }
+
+    if (qi === pattern.length) {
+        return false;
+    }
+
+    const segment = pattern[qi];
+
+    if (segment === GLOBSTAR) {
+        return matchSegments(path, pi, pattern, qi + 1, partial) ||
+               matchSegments(path, pi + 1, pattern, qi, partial);
+    }
+
+    return segment.test(path[pi]) && matchSegments(path, pi + 1, pattern, qi + 1, partial);
+}
+
+// =============================================================================
+// MKDIRP / RMRF
+// =============================================================================
+
+/**
+ * Create a directory and any missing parents.
+ *
+ * An existing directory is not an error; an existing file is (EEXIST).
+ *
+ * @returns First directory created, or undefined if none was
+ */
+export async function mkdirp(client: OSClient, path: string, options?: CallOptions): Promise<string | undefined> {
+    try {
+        await client.mkdir(path, options);
+
+        return path;
+    }
+    catch (err) {
+        if (!(err instanceof SyscallError)) {
+            throw err;
+        }
+
+        const parent = posix.dirname(path);
+
+        if (err.code === 'ENOENT' && parent !== path) {
+            const first = await mkdirp(client, parent, options);
+
+            await client.mkdir(path, options);
+
+            return first ?? path;
+        }
+
+        if (err.code === 'EEXIST' && (await client.stat(path, options)).model === FOLDER_MODEL) {
+            return undefined;
+        }
+
+        throw err;
+    }
+}
+
+/**
+ * Remove a file or directory tree. A missing path is not an error.
+ *
+ * Siblings are removed concurrently; each folder is removed once empty.
+ */
+export async function rmrf(client: OSClient, path: string, options: TreeOptions = {}): Promise<void> {
+    await removeTree(client, path, undefined, options, createLimiter(options.concurrency));
+}
+
+async function removeTree(
+    client: OSClient,
+    path: string,
+    model: string | undefined,
+    options: TreeOptions,
+    limit: Limiter,
+): Promise<void> {
+    try {
+        // WHY: children's models come from the listing, so only the root
+        // needs a file:stat
+        model ??= (await limit(() => client.stat(path, options))).model;
+
+        if (model !== FOLDER_MODEL) {
+            await limit(() => client.unlink(path, options));
+
+            return;
+        }
+
+        const entries = await limit(() => client.readdirSync(path, options));
+
+        await Promise.all(entries.map(entry =>
+            removeTree(client, posix.join(path, entry.name), entry.model, options, limit)));
+        await limit(() => client.rmdir(path, options));
+    }
+    catch (err) {
+        // Already gone (or removed concurrently)
+        if (err instanceof SyscallError && err.code === 'ENOENT') {
+            return;
+        }
+
+        throw err;
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Create a limiter allowing `concurrency` tasks at once.
+ */
+export function createLimiter(concurrency = DEFAULT_CONCURRENCY): Limiter {
+    const max = Math.max(1, Math.floor(concurrency));
+    const waiting: (() => void)[] = [];
+    let active = 0;
+
+    return async task => {
+        if (active < max) {
+            active++;
+        }
+        else {
+            // The finishing task hands its slot over without decrementing
+            await new Promise<void>(resolve => waiting.push(resolve));
+        }
+
+        try {
+            return await task();
+        }
+        finally {
+            const next = waiting.shift();
+
+            if (next) {
+                next();
+            }
+            else {
+                active--;
+            }
+        }
+    };
+}
@@ -7,6 +7,8 @@
  * @module types
  */
 
+import type { Connector } from './connector.js';
+
 // =============================================================================
 // REQUEST TYPES
 // =============================================================================
@@ -88,7 +90,7 @@ export interface DoneResponse extends BaseResponse {
  */
 export interface RedirectResponse extends BaseResponse {
     op: 'redirect';
-    data?: Record<string, unknown>;
+    data?: RedirectData;
 }
 
 /**
@@ -105,14 +107,20 @@ export interface ItemResponse extends BaseResponse {
 export interface DataResponse extends BaseResponse {
     op: 'data';
     bytes: Uint8Array;
+
+    /** Output stream the bytes came from (spawned processes with piped stdio) */
+    stream?: StdioStream;
 }
 
 /**
  * Async event notification.
+ *
+ * Events for an in-flight request carry its ID; unsolicited events (not
+ * tied to any request) carry an ID no request uses.
  */
 export interface EventResponse extends BaseResponse {
     op: 'event';
-    data?: Record<string, unknown>;
+    data?: EventData;
 }
 
 /**
@@ -120,7 +128,65 @@ export interface EventResponse extends BaseResponse {
  */
 export interface ProgressResponse extends BaseResponse {
     op: 'progress';
-    data?: Record<string, unknown>;
+    data?: ProgressData;
+}
+
+/**
+ * Redirect payload: where to re-issue the request.
+ *
+ * Fields combine; omitted ones keep the original request's value.
+ *
+ * @example
+ * { path: '/mnt/data/file.txt' }          // symlink or mount: new path
+ * { call: 'ems:select', args: ['User'] }  // different syscall
+ * { gateway: 'tcp://node-2:7000' }        // entity lives on another gateway
+ */
+export interface RedirectData {
+    /** Syscall to issue instead */
+    call?: string;
+
+    /** Arguments to use instead */
+    args?: unknown[];
+
+    /** Path replacing the first argument */
+    path?: string;
+
+    /** URL of the gateway to send the request to */
+    gateway?: string;
+}
+
+/**
+ * Event payload.
+ */
+export interface EventData {
+    /** Event type, e.g. 'signal' */
+    type?: string;
+
+    /** Event-specific fields */
+    [key: string]: unknown;
+}
+
+/**
+ * Progress payload for long-running syscalls.
+ *
+ * @example
+ * { done: 1048576, total: 4194304, unit: 'bytes' }
+ */
+export interface ProgressData {
+    /** Units completed so far */
+    done?: number;
+
+    /** Total units, if known */
+    total?: number;
+
+    /** Unit of done/total (default: bytes for I/O syscalls) */
+    unit?: string;
+
+    /** Human-readable description of the current stage */
+    message?: string;
+
+    /** Syscall-specific fields */
+    [key: string]: unknown;
 }
 
 /**
@@ -178,25 +244,420 @@ export function isData(response: Response): response is DataResponse {
     return response.op === 'data';
 }
 
+/**
+ * Check if response is a redirect.
+ */
+export function isRedirect(response: Response): response is RedirectResponse {
+    return response.op === 'redirect';
+}
+
+/**
+ * Check if response is an event notification.
+ */
+export function isEvent(response: Response): response is EventResponse {
+    return response.op === 'event';
+}
+
+/**
+ * Check if response is a progress update.
+ */
+export function isProgress(response: Response): response is ProgressResponse {
+    return response.op === 'progress';
+}
+
 // =============================================================================
 // CONNECTION TYPES
 // =============================================================================
 
 /**
  * Connection options for OSClient.
+ *
+ * The gateway address is taken from the first of: connector, url,
+ * host/port, socketPath. With none given, /tmp/monk.sock is used.
  */
 export interface ConnectOptions {
     /** Unix socket path (default: /tmp/monk.sock) */
     socketPath?: string;
 
+    /**
+     * Gateway URL: unix:///tmp/monk.sock, tcp://host:7000,
+     * tls://host:7000, ws://host/gateway or wss://host/gateway.
+     */
+    url?: string;
+
+    /** TCP host (requires port) */
+    host?: string;
+
+    /** TCP port (requires host) */
+    port?: number;
+
+    /** Custom backend carrying gateway frames */
+    connector?: Connector;
+
+    /**
+     * Use TLS for TCP connections (`true` for system CAs).
+     *
+     * For WebSocket, use a wss:// URL instead.
+     */
+    tls?: boolean | TlsOptions;
+
+    /**
+     * Authenticate before the connection is considered connected.
+     *
+     * Failure rejects connect() with a ConnectionError coded EACCES.
+     */
+    auth?: AuthOptions;
+
     /** Connection timeout in ms (default: 5000) */
     timeout?: number;
+
+    /**
+     * Reconnect automatically when the gateway drops the connection.
+     *
+     * `true` enables reconnection with default backoff settings.
+     * Disabled by default.
+     */
+    reconnect?: boolean | ReconnectOptions;
+
+    /** Redirects OSClient follows per call before failing with ELOOP (default: 8) */
+    maxRedirects?: number;
+
+    /**
+     * Other gateways that redirects may send calls to, by URL, with the
+     * settings to connect to each.
+     *
+     * Auth and TLS settings of this connection are never carried over: a
+     * gateway must not be able to collect them by naming a host of its
+     * choosing. A redirect to an unlisted gateway fails with EACCES.
+     * Default: none.
+     */
+    gateways?: Record<string, GatewayOptions>;
+}
+
+/**
+ * Settings for connecting to a gateway named by redirects.
+ *
+ * Timeout and reconnect default to those of the main connection.
+ */
+export type GatewayOptions = Pick<ConnectOptions, 'tls' | 'auth' | 'timeout' | 'reconnect'>;
+
+/**
+ * TLS settings for TCP connections.
+ */
+export interface TlsOptions {
+    /** Trusted CA certificate(s) in PEM format (default: system CAs) */
+    ca?: string | string[];
+
+    /** Client certificate in PEM format (for mutual TLS) */
+    cert?: string;
+
+    /** Client private key in PEM format (for mutual TLS) */
+    key?: string;
+
+    /** Server name for SNI and certificate verification (default: host) */
+    serverName?: string;
+
+    /** Reject servers with untrusted certificates (default: true) */
+    rejectUnauthorized?: boolean;
+}
+
+/**
+ * Authentication step of the connect handshake.
+ *
+ * - token: sent to the gateway as-is (sys:auth)
+ * - secret: proves knowledge of a shared secret by answering the gateway's
+ *   challenge with an HMAC-SHA256 of its nonce (sys:challenge, sys:auth);
+ *   the secret never crosses the wire
+ */
+export type AuthOptions =
+    | { token: string }
+    | { secret: string };
+
+/**
+ * Reconnect policy for dropped connections.
+ *
+ * Delay before attempt n is `initialDelay * factor^(n-1)`, capped at
+ * `maxDelay`, then randomized by +/- `jitter` (a fraction of the delay).
+ */
+export interface ReconnectOptions {
+    /** Maximum reconnect attempts before giving up (default: 10) */
+    maxAttempts?: number;
+
+    /** Delay before the first attempt in ms (default: 100) */
+    initialDelay?: number;
+
+    /** Upper bound for the delay between attempts in ms (default: 10000) */
+    maxDelay?: number;
+
+    /** Backoff multiplier applied per attempt (default: 2) */
+    factor?: number;
+
+    /** Random jitter as a fraction of the delay, 0-1 (default: 0.2) */
+    jitter?: number;
+
+    /**
+     * Additional syscalls that are safe to re-send after reconnecting.
+     *
+     * Extends the built-in list of idempotent syscalls (file:stat,
+     * file:readdir, ems:select, proc:getcwd, ...).
+     */
+    replay?: string[];
+}
+
+/**
+ * Per-request options for Transport.send() and Transport.stream().
+ */
+export interface RequestOptions {
+    /** Response timeout in ms (default: 30000, send() only) */
+    timeout?: number;
+
+    /** Abort the request; the gateway is told to stop responding */
+    signal?: AbortSignal;
+
+    /** Called for each progress response (send() only; streams yield them) */
+    onProgress?: (progress: ProgressData) => void;
+}
+
+/**
+ * Per-call options for OSClient syscalls.
+ *
+ * onProgress is honored by single-value and streaming syscalls alike.
+ */
+export interface CallOptions extends RequestOptions {
+    /** Redirects to follow before failing with ELOOP (default: from connect) */
+    maxRedirects?: number;
+}
+
+/**
+ * Options for chunked writes (writeAll, writeFile).
+ */
+export interface WriteOptions extends CallOptions {
+    /** Largest payload per file:write frame in bytes (default: 65536) */
+    chunkSize?: number;
+}
+
+/**
+ * Options for createWriteStream().
+ */
+export interface WriteStreamOptions extends WriteOptions {
+    /** Open flags (default: write, create, truncate) */
+    flags?: OpenFlags;
+}
+
+/**
+ * Options for createReadStream().
+ */
+export interface ReadStreamOptions extends CallOptions {
+    /** First byte to read (default: 0 for paths, current position for fds) */
+    start?: number;
+
+    /** Last byte to read, inclusive (default: end of file) */
+    end?: number;
+
+    /** Bytes requested per file:read and buffered ahead (default: 65536) */
+    highWaterMark?: number;
+}
+
+/**
+ * Options shared by tree operations (walk, glob, mkdirp, rmrf).
+ */
+export interface TreeOptions extends CallOptions {
+    /** Most syscalls in flight at once (default: 8) */
+    concurrency?: number;
+}
+
+/**
+ * Options for walk().
+ */
+export interface WalkOptions extends TreeOptions {
+    /** Levels to descend; 1 lists only the root's children (default: unlimited) */
+    depth?: number;
+
+    /**
+     * Called for each entry; false skips it and, for folders, everything
+     * beneath it.
+     */
+    filter?: (entry: WalkEntry) => boolean;
+}
+
+/**
+ * Entry yielded by walk().
+ */
+export interface WalkEntry {
+    /** Absolute path of the entry */
+    path: string;
+
+    /** Directory entry as listed by file:readdir */
+    entry: DirEntry;
+
+    /** Stats from file:stat */
+    stat: Stat;
+}
+
+/**
+ * Options for glob().
+ */
+export interface GlobOptions extends TreeOptions {
+    /** Directory relative patterns are resolved against (default: /) */
+    cwd?: string;
+}
+
+/**
+ * What copy() and move() do when the destination already exists.
+ *
+ * - error: fail with EEXIST (default)
+ * - replace: overwrite it
+ * - skip: leave it and carry on
+ */
+export type OverwritePolicy = 'error' | 'replace' | 'skip';
+
+/**
+ * Options for copy().
+ */
+export interface CopyOptions extends TreeOptions {
+    /** Copy folders and their contents (default: false, folders fail with EISDIR) */
+    recursive?: boolean;
+
+    /** Policy for existing destination files; existing folders are merged into */
+    overwrite?: OverwritePolicy;
+
+    /** Give copies the source's created_at/updated_at (default: false) */
+    preserveTimestamps?: boolean;
+}
+
+/**
+ * Options for move().
+ */
+export interface MoveOptions extends TreeOptions {
+    /** Policy for an existing destination; replace removes it first */
+    overwrite?: OverwritePolicy;
+}
+
+/**
+ * Timestamps for utimes(); omitted fields are left unchanged.
+ */
+export interface Timestamps {
+    created_at?: Date | string;
+    updated_at?: Date | string;
+}
+
+/**
+ * Options for syncTo() and syncFrom().
+ */
+export interface SyncOptions extends TreeOptions {
+    /** Plan and report changes without making them */
+    dryRun?: boolean;
+
+    /** Remove destination entries missing from the source */
+    delete?: boolean;
+
+    /**
+     * Compare file contents by SHA-256 instead of modification time.
+     *
+     * Slower (both copies are read) but immune to clock and timestamp
+     * differences. Sizes are always compared first.
+     */
+    checksum?: boolean;
+
+    /** Called for each change as it is made (or, with dryRun, planned) */
+    onChange?: (change: SyncChange) => void;
+}
+
+/**
+ * One change made (or planned) by a sync.
+ */
+export interface SyncChange {
+    action: 'create' | 'update' | 'delete';
+
+    /** Path relative to the sync roots, with / separators */
+    path: string;
+
+    type: 'file' | 'folder';
+
+    /** Bytes transferred (files only) */
+    size?: number;
+}
+
+/**
+ * Outcome of syncTo() and syncFrom().
+ */
+export interface SyncResult {
+    /** Changes made, in order (planned changes with dryRun) */
+    changes: SyncChange[];
+
+    /** Number of source entries already up to date */
+    unchanged: number;
+}
+
+/**
+ * Options for watch().
+ */
+export interface WatchOptions extends TreeOptions {
+    /** Watch the whole tree rather than the path and its direct children */
+    recursive?: boolean;
+
+    /** Milliseconds between scans when polling (default: 1000) */
+    interval?: number;
+}
+
+/**
+ * Options for lock() and tryLock().
+ */
+export interface LockOptions extends CallOptions {
+    /** Exclusive (write) lock; false for a shared (read) lock (default: true) */
+    exclusive?: boolean;
+
+    /**
+     * Milliseconds lock() waits for conflicting locks to be released before
+     * failing with TimeoutError (default: wait indefinitely).
+     *
+     * Bounds the whole wait rather than each request.
+     */
+    timeout?: number;
+}
+
+/**
+ * Kind of change reported by watch().
+ */
+export type WatchEventType = 'created' | 'modified' | 'deleted' | 'renamed';
+
+/**
+ * Change reported by watch().
+ */
+export interface WatchEvent {
+    type: WatchEventType;
+
+    /** Absolute path of the entry (the new path for renames) */
+    path: string;
+
+    /** Previous path (renamed only) */
+    oldPath?: string;
+
+    /** Stats of the entry, when known (not for deleted) */
+    stat?: Stat;
 }
 
 /**
  * Connection state.
  */
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected';
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+/**
+ * Gateway version and capabilities, learned from the sys:hello exchange.
+ */
+export interface Capabilities {
+    /** Protocol version the gateway speaks */
+    protocol: number;
+
+    /** Gateway software version (informational) */
+    version?: string;
+
+    /** Syscall names the gateway implements (undefined if it did not list them) */
+    syscalls?: string[];
+
+    /** Protocol features, e.g. 'binary' for binary file:write payloads (undefined if not listed) */
+    features?: string[];
+}
 
 // =============================================================================
 // SYSCALL RESULT TYPES
@@ -215,6 +676,11 @@ export interface Stat {
     parent_id?: string;
 }
 
+/**
+ * Model of directories in Stat and DirEntry.
+ */
+export const FOLDER_MODEL = 'folder';
+
 /**
  * Directory entry.
  */
@@ -227,11 +693,43 @@ export interface DirEntry {
  * Open flags for file:open.
  */
 export interface OpenFlags {
+    /** Allow read() and pread() */
     read?: boolean;
+
+    /** Allow write(), pwrite() and ftruncate() */
     write?: boolean;
+
+    /** Create the file if it does not exist */
     create?: boolean;
+
+    /** Truncate the file to zero length on open */
     truncate?: boolean;
+
+    /** Every write() goes to the end of the file; pwrite() offsets are ignored (as on Linux) */
     append?: boolean;
+
+    /** With create, fail with EEXIST if the file already exists */
+    exclusive?: boolean;
+}
+
+/**
+ * Reference point for seek().
+ *
+ * - set: from the start of the file
+ * - cur: from the current position
+ * - end: from the end of the file
+ */
+export type Whence = 'set' | 'cur' | 'end';
+
+/**
+ * Options for OSClient.session().
+ */
+export interface SessionOptions {
+    /** Working directory; relative to the parent session's, if any (default: inherited) */
+    cwd?: string;
+
+    /** Variables added to the inherited env */
+    env?: Record<string, string>;
 }
 
 /**
@@ -241,6 +739,157 @@ export interface SpawnOptions {
     args?: string[];
     env?: Record<string, string>;
     cwd?: string;
+
+    /** Standard streams to pipe: one mode for all three, or per stream (default: ignore) */
+    stdio?: StdioMode | StdioOptions;
+}
+
+/**
+ * What a spawned process's standard stream is connected to.
+ *
+ * - pipe: exposed as Process.stdin, stdout or stderr
+ * - ignore: discarded (stdin reads end of file)
+ */
+export type StdioMode = 'pipe' | 'ignore';
+
+/**
+ * Per-stream stdio modes; omitted streams are ignored.
+ */
+export interface StdioOptions {
+    stdin?: StdioMode;
+    stdout?: StdioMode;
+    stderr?: StdioMode;
+}
+
+/**
+ * Output stream of a spawned process.
+ */
+export type StdioStream = 'stdout' | 'stderr';
+
+/**
+ * Options for exec().
+ */
+export interface ExecOptions extends CallOptions {
+    env?: Record<string, string>;
+    cwd?: string;
+
+    /** Written to the process's stdin, which is then closed */
+    input?: string | Uint8Array;
+}
+
+/**
+ * Outcome of exec(): exit status and collected output (UTF-8).
+ */
+export interface ExecResult extends ExitStatus {
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * POSIX signal names accepted by proc:kill and delivered by onSignal().
+ *
+ * A const object rather than a TS enum, so values are the plain strings
+ * the gateway sends and `Signal` also names the union of them.
+ *
+ * @example
+ * await client.kill(pid, Signal.SIGINT);
+ */
+export const Signal = {
+    SIGHUP: 'SIGHUP',
+    SIGINT: 'SIGINT',
+    SIGQUIT: 'SIGQUIT',
+    SIGKILL: 'SIGKILL',
+    SIGUSR1: 'SIGUSR1',
+    SIGUSR2: 'SIGUSR2',
+    SIGPIPE: 'SIGPIPE',
+    SIGALRM: 'SIGALRM',
+    SIGTERM: 'SIGTERM',
+    SIGCHLD: 'SIGCHLD',
+    SIGCONT: 'SIGCONT',
+    SIGSTOP: 'SIGSTOP',
+    SIGTSTP: 'SIGTSTP',
+    SIGWINCH: 'SIGWINCH',
+} as const;
+
+export type Signal = typeof Signal[keyof typeof Signal];
+
+/**
+ * Handler for a signal delivered to the gateway-attached process.
+ */
+export type SignalHandler = (signal: Signal) => void | Promise<void>;
+
+/**
+ * Options for OSClient.onSignal().
+ */
+export interface SignalOptions {
+    /**
+     * Called when the handler throws or rejects, and when signal delivery
+     * ends because the client closed or could not reconnect (the handler
+     * is then removed). Without it, such errors are ignored.
+     */
+    onError?: (error: unknown, signal: Signal) => void;
+}
+
+/**
+ * How a process ended, from proc:wait.
+ */
+export interface ExitStatus {
+    /** Exit code, or null if the process was killed by a signal */
+    code: number | null;
+
+    /** Signal that killed the process (e.g. 'SIGTERM'), or null */
+    signal: Signal | null;
+}
+
+/**
+ * Whether a process is still running, and how it ended if not.
+ */
+export type ProcessStatus =
+    | { state: 'running' }
+    | ({ state: 'exited' } & ExitStatus);
+
+/**
+ * Scheduler state of a process.
+ */
+export type ProcessState = 'running' | 'sleeping' | 'stopped' | 'zombie';
+
+/**
+ * Process record from proc:list.
+ */
+export interface ProcessInfo {
+    pid: string;
+
+    /** Parent pid ('' for the root process) */
+    ppid: string;
+
+    /** Program path */
+    path: string;
+
+    /** Working directory */
+    cwd: string;
+
+    state: ProcessState;
+
+    /** Start time (ISO 8601) */
+    started_at: string;
+}
+
+/**
+ * Process with its descendants, from processTree().
+ */
+export interface ProcessTree extends ProcessInfo {
+    children: ProcessTree[];
+}
+
+/**
+ * Options for ps().
+ */
+export interface PsOptions extends CallOptions {
+    /** Only children of this pid */
+    ppid?: string;
+
+    /** Only processes in this state (or these states) */
+    state?: ProcessState | ProcessState[];
 }
 
 /**
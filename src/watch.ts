@@ -0,0 +1,252 @@
+/**
+ * Watch - Observe changes to files and folder trees
+ *
+ * Gateways that implement file:watch push changes as event responses on
+ * the watch request. Elsewhere the tree is scanned every `interval`
+ * milliseconds and consecutive scans are diffed: new paths are created,
+ * missing paths deleted, a changed size or updated_at is a modification,
+ * and an entry id that moved to a new path is a rename.
+ *
+ * @module watch
+ */
+
+import type { OSClient } from './client.js';
+import type { Stat, WatchEvent, WatchEventType, WatchOptions } from './types.js';
+import { FOLDER_MODEL, isError, isEvent } from './types.js';
+import { SyscallError } from './error.js';
+import { walk } from './tree.js';
+import { delay } from './timers.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Default milliseconds between scans when polling.
+ */
+export const DEFAULT_WATCH_INTERVAL = 1000;
+
+/**
+ * Syscall that subscribes to change events.
+ */
+const WATCH_SYSCALL = 'file:watch';
+
+/**
+ * Event types accepted from the gateway.
+ */
+const WATCH_EVENT_TYPES: readonly WatchEventType[] = ['created', 'modified', 'deleted', 'renamed'];
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Watch a file or folder for changes.
+ *
+ * Without recursive, a folder's direct children are watched. Iteration
+ * runs until the consumer leaves the loop, the signal is aborted, or the
+ * gateway ends the subscription.
+ *
+ * @throws AbortError if the signal is aborted
+ */
+export async function* watch(client: OSClient, path: string, options: WatchOptions = {}): AsyncGenerator<WatchEvent> {
+    if (client.supports(WATCH_SYSCALL) && (yield* subscribe(client, path, options))) {
+        return;
+    }
+
+    yield* poll(client, path, options);
+}
+
+// =============================================================================
+// GATEWAY EVENTS
+// =============================================================================
+
+/**
+ * Yield the events of a file:watch subscription.
+ *
+ * @returns false if the gateway does not implement file:watch
+ */
+async function* subscribe(client: OSClient, path: string, options: WatchOptions): AsyncGenerator<WatchEvent, boolean> {
+    let started = false;
+
+    try {
+        const args = [path, { recursive: options.recursive ?? false }];
+
+        for await (const response of client.streamWith(WATCH_SYSCALL, args, options)) {
+            if (isError(response)) {
+                throw SyscallError.fromResponse(response, WATCH_SYSCALL);
+            }
+
+            const event = isEvent(response) ? toWatchEvent(response.data) : undefined;
+
+            if (event) {
+                started = true;
+                yield event;
+            }
+
+            // ok/done: the gateway ended the subscription
+        }
+    }
+    catch (err) {
+        if (!started && err instanceof SyscallError && err.code === 'ENOSYS') {
+            return false;
+        }
+
+        throw err;
+    }
+
+    return true;
+}
+
+/**
+ * Convert an event payload, or undefined if it is not a change event.
+ */
+function toWatchEvent(data: Record<string, unknown> | undefined): WatchEvent | undefined {
+    const type = data?.type as WatchEventType;
+
+    if (!WATCH_EVENT_TYPES.includes(type) || typeof data?.path !== 'string') {
+        return undefined;
+    }
+
+    const event: WatchEvent = { type, path: data.path };
+
+    if (typeof data.oldPath === 'string') {
+        event.oldPath = data.oldPath;
+    }
+
+    if (data.stat) {
+        event.stat = data.stat as Stat;
+    }
+
+    return event;
+}
+
+// =============================================================================
+// POLLING
+// =============================================================================
+
+/**
+ * Scan the tree every interval and yield the differences.
+ */
+async function* poll(client: OSClient, path: string, options: WatchOptions): AsyncGenerator<WatchEvent> {
+    let previous: Map<string, Stat> | undefined;
+
+    while (true) {
+        const current = await scan(client, path, options);
+
+        if (current) {
+            if (previous) {
+                yield* diff(previous, current);
+            }
+
+            previous = current;
+        }
+
+        await delay(options.interval ?? DEFAULT_WATCH_INTERVAL, options.signal);
+    }
+}
+
+/**
+ * Stat the root and, for folders, its children (or whole tree).
+ *
+ * @returns Stats by path (empty if the root does not exist), or undefined
+ *          if the tree changed while being listed
+ */
+async function scan(client: OSClient, root: string, options: WatchOptions): Promise<Map<string, Stat> | undefined> {
+    const entries = new Map<string, Stat>();
+    let stat: Stat;
+
+    try {
+        stat = await client.stat(root, options);
+    }
+    catch (err) {
+        if (err instanceof SyscallError && err.code === 'ENOENT') {
+            return entries;
+        }
+
+        throw err;
+    }
+
+    entries.set(root, stat);
+
+    if (stat.model !== FOLDER_MODEL) {
+        return entries;
+    }
+
+    try {
+        for await (const entry of walk(client, root, { ...options, depth: options.recursive ? Infinity : 1 })) {
+            entries.set(entry.path, entry.stat);
+        }
+    }
+    catch (err) {
+        // Removed or replaced mid-scan - the next scan will see it settled
+        if (err instanceof SyscallError && (err.code === 'ENOENT' || err.code === 'ENOTDIR')) {
+            return undefined;
+        }
+
+        throw err;
+    }
+
+    return entries;
+}
+
+/**
+ * Changes between two scans: renames and creations (parents first),
+ * modifications, then deletions (children first).
+ */
+function* diff(previous: Map<string, Stat>, current: Map<string, Stat>): Generator<WatchEvent> {
+    const removed = [...previous.keys()].filter(path => !current.has(path)).sort();
+    const added = [...current.keys()].filter(path => !previous.has(path)).sort();
+    const removedIds = new Map<string, string>();
+    const renamed = new Set<string>();
+
+    for (const path of removed) {
+        const { id } = previous.get(path)!;
+
+        if (id) {
+            removedIds.set(id, path);
+        }
+    }
+
+    for (const path of added) {
+        const stat = current.get(path)!;
+        const oldPath = stat.id ? removedIds.get(stat.id) : undefined;
+
+        if (oldPath === undefined) {
+            yield { type: 'created', path, stat };
+            continue;
+        }
+
+        removedIds.delete(stat.id);
+        renamed.add(oldPath);
+        yield { type: 'renamed', path, oldPath, stat };
+    }
+
+    for (const [path, stat] of current) {
+        const before = previous.get(path);
+
+        if (before && isModified(before, stat)) {
+            yield { type: 'modified', path, stat };
+        }
+    }
+
+    for (const path of removed.reverse()) {
+        if (!renamed.has(path)) {
+            yield { type: 'deleted', path };
+        }
+    }
+}
+
+/**
+ * Check whether an entry changed between scans.
+ *
+ * WHY: folders are not compared by time - adding or removing children
+ * updates it, and those changes are reported for the children themselves
+ */
+function isModified(before: Stat, after: Stat): boolean {
+    if (before.model !== after.model) {
+        return true;
+    }
+
+    return after.model !== FOLDER_MODEL && (before.size !== after.size || before.updated_at !== after.updated_at);
+}